@@ -29,6 +29,7 @@ import {
 	MarkdownView,
 	Modal,
 	Menu,
+	MenuItem,
 	Notice,
 	Plugin,
 	PluginSettingTab,
@@ -38,12 +39,35 @@ import {
 	setIcon,
 	TextComponent,
 	ButtonComponent,
+	Component,
+	MarkdownRenderer,
 } from "obsidian";
 import { generateAndAppendTags } from "./src/autoTagger";
 import { UpdateNoticeModal } from "./src/updateNoticeModal";
 import { RAGManager } from './src/rag';
 import { BacklinkGenerator } from './src/backlinkGenerator';
 import { RAGChatModal } from './src/ragChatModal';
+import { LLMClient, ChatMessage, ChatResult, SamplingOptions, ToolCall, buildChatMessages, extractActualResponse } from './src/llmClient';
+import { ProviderProfile, createProfileFromSettings, getProfileOptions, resolveProfileSettings } from './src/providerProfiles';
+import { DiscoveredModels, ModelSuggest, discoverModels, isModelAvailable } from './src/modelDiscovery';
+import { DEFAULT_JOB_PRIORITIES, JOB_KIND_NAMES, JOB_PRIORITY_NAMES, JobKind, JobPriority, JobRegistry, LLMJob, isAbortError } from './src/jobRegistry';
+import { JOBS_VIEW_TYPE, JobsView } from './src/jobsView';
+import { DEFAULT_CONTEXT_LENGTH, detectContextLength, fitMessagesToContext, resolveContextLength } from './src/contextBudget';
+import { confirmContextOverflow } from './src/contextOverflowModal';
+import { DEFAULT_REDUCE_PROMPT, runMapReduce } from './src/mapReduce';
+import { ANY_OBJECT_SCHEMA, JSONSchema, StructuredOutputError, requestStructured } from './src/structuredOutput';
+import { ChatTool, createVaultTools, runToolConversation } from './src/chatTools';
+import { attachImages, findImageEmbeds, isVisionModel, resolveImageEmbeds } from './src/imageEmbeds';
+import { findAudioLink, resolveAudioFile, transcribeAudio } from './src/audioTranscription';
+import { ResponseCache, hashCacheKey } from './src/responseCache';
+import { ConnectionTestModal } from './src/connectionTestModal';
+import { MockReasoningMode } from './src/mockChatProvider';
+import { OUTPUT_MODE_NAMES, OutputMode, OutputWriter, createOutputWriter } from './src/outputModes';
+import { anchoredInsertionTracker, getEditorView } from './src/anchoredInsertion';
+import { inlineContinuationExtension, triggerInlineContinuation } from './src/inlineContinuation';
+import { SELECTION_SCOPE_NAMES, SelectionScope, flashRange, resolveScope, scopeHighlightField } from './src/selectionScope';
+import { ReadingSelection, captureReadingSelection, trackReadingSection } from './src/readingViewSelection';
+import { RESPONSE_PREVIEW_VIEW_TYPE, ResponsePreviewView } from './src/responsePreviewView';
 // <IMPORTS_END>
 
 // <SETTINGS_INTERFACE_START>
@@ -69,6 +93,8 @@ export interface OLocalLLMSettings {
 	embeddingModelName: string;
 	braveSearchApiKey: string;
 	openAIApiKey?: string;
+	extraHeaders?: string; // Extra HTTP headers for the LLM server, one "Name: value" per line
+	openAIExtendedSampling?: boolean; // Send top_k, min_p and repeat penalty to OpenAI-compatible servers
 	customPrompts?: CustomPrompt[];
 	promptConcatenationPattern?: string; // How to combine custom prompt with selected text
 	extractReasoningResponses?: boolean; // Whether to extract actual response from reasoning models
@@ -81,6 +107,40 @@ export interface OLocalLLMSettings {
 	perplexicaUrl?: string; // Perplexica API URL
 	firecrawlUrl?: string; // Firecrawl API URL
 	savedPersonas?: { [key: string]: string }; // User-saved persona system prompts
+	ollamaNumCtx?: number; // Ollama context window (num_ctx), 0 keeps the model default
+	ollamaKeepAlive?: string; // Ollama keep_alive, e.g. "5m"
+	ollamaFormat?: string; // Ollama output format: "", "json" or a JSON schema
+	ollamaThink?: boolean; // Ollama think flag, undefined leaves it to the server
+	providerProfiles?: ProviderProfile[]; // Named alternative endpoints/models
+	taggerProfileId?: string; // Profile used for hashtag generation ("" = main settings)
+	chatProfileId?: string; // Profile used by the chat modal
+	chatToolsEnabled?: boolean; // Let the chat modal call vault and web search tools
+	ragProfileId?: string; // Profile used to answer RAG chat questions
+	webSearchProfileId?: string; // Profile used to summarize web/news search results
+	maxConcurrentJobs?: number; // How many LLM jobs may run at the same time
+	jobPriorities?: Partial<Record<JobKind, JobPriority>>; // Queue priority per job kind
+	modelContextLengths?: { [model: string]: number }; // Context window per model name, auto-detected when missing
+	visionModels?: string[]; // Model names marked as accepting images
+	transcriptionServerAddress?: string; // OpenAI-compatible base URL for /audio/transcriptions, serverAddress when empty
+	transcriptionApiKey?: string; // Bearer token for the transcription server; the main credentials are only sent to the main server
+	transcriptionModel?: string; // Speech-to-text model name sent to the transcription server
+	transcriptionLanguage?: string; // ISO-639-1 language hint, auto-detected when empty
+	transcriptionPromptId?: string; // Custom prompt run on new transcripts ("" = none)
+	responseCacheEnabled?: boolean; // Reuse answers to identical prompt requests
+	responseCacheTTLHours?: number; // Cached answers expire after this many hours, 0 = never
+	responseCacheMaxSizeMB?: number; // Oldest cached answers are evicted above this size
+	mockReasoning?: MockReasoningMode; // Mock provider: simulated reasoning section
+	mockStreamDelayMs?: number; // Mock provider: pause between streamed words
+	calloutType?: string; // Callout output mode: callout type, e.g. "note", "tip", "abstract"
+	calloutTitle?: string; // Callout output mode: title, {title} is replaced with the prompt title
+	outputNoteFolder?: string; // New note output mode: folder, the source note's folder when empty
+	defaultReducePrompt?: string; // Reduce prompt for chunked (map-reduce) processing
+	continuationEnabled?: boolean; // Suggest ghost-text continuations after typing pauses
+	continuationProfileId?: string; // Profile used for inline continuations ("" = main settings)
+	continuationDelayMs?: number; // Typing pause before a continuation is requested
+	continuationMaxTokens?: number; // Length limit for one continuation
+	defaultSelectionScope?: SelectionScope; // What commands work on when nothing is selected
+	selectionScopes?: { [commandId: string]: SelectionScope }; // Per built-in command override of defaultSelectionScope
 }
 // <SETTINGS_INTERFACE_END>
 
@@ -100,6 +160,15 @@ interface CustomPrompt {
   title: string;        // Searchable title
   prompt: string;       // The actual prompt text
   systemPrompt?: string; // Optional system prompt to override persona
+  profileId?: string;   // Optional provider profile, main settings when unset
+  chunked?: boolean;    // Run map-reduce over chunks when the text is larger than the context
+  reducePrompt?: string; // Combines chunk results in chunked mode, settings.defaultReducePrompt when unset
+  sampling?: SamplingOptions; // Per-prompt temperature, max tokens, top_p etc.; unset values use the profile/global defaults
+  structured?: boolean; // Answer with JSON validated against jsonSchema, inserted as a code block
+  jsonSchema?: string;  // JSON schema text for structured prompts, any JSON object when empty
+  outputMode?: OutputMode; // Where the answer goes, settings.outputMode when unset
+  favorite?: boolean;   // Listed in the editor context menu
+  scope?: SelectionScope; // Text used when nothing is selected, settings.defaultSelectionScope when unset
   createdAt: number;    // Timestamp for ordering
   updatedAt: number;    // Timestamp for updates
 }
@@ -124,6 +193,8 @@ const DEFAULT_SETTINGS: OLocalLLMSettings = {
 	embeddingModelName: "nomic-embed-text",
 	braveSearchApiKey: "",
 	openAIApiKey: "lm-studio",
+	extraHeaders: "", // No extra headers
+	openAIExtendedSampling: true, // Local servers (LM Studio, llama.cpp, vLLM) understand them
 	customPrompts: [], // Will be populated from JSON during initialization
 	promptConcatenationPattern: "{prompt}: {selection}", // Default pattern
 	extractReasoningResponses: false, // Default to false for backward compatibility
@@ -142,6 +213,33 @@ const DEFAULT_SETTINGS: OLocalLLMSettings = {
 	searxngUrl: "https://searx.work", // Default SearXNG instance
 	perplexicaUrl: "https://api.perplexica.com", // Default Perplexica API URL
 	firecrawlUrl: "https://api.firecrawl.dev", // Default Firecrawl API URL
+	ollamaNumCtx: 0, // Use the model's default context window
+	ollamaKeepAlive: "", // Use the server's default keep_alive
+	ollamaFormat: "", // Free-form text output
+	providerProfiles: [], // No extra profiles - main settings are used everywhere
+	chatToolsEnabled: true, // Chat can search, read and (after confirmation) write notes
+	maxConcurrentJobs: 1, // One generation at a time - local servers usually share a single GPU
+	modelContextLengths: {}, // Detect from the server, fall back to 4096
+	visionModels: [], // Image embeds are sent as plain markdown until a model is marked
+	transcriptionServerAddress: "http://localhost:8080/v1", // whisper.cpp server default port
+	transcriptionApiKey: "", // Local whisper servers need none
+	transcriptionModel: "whisper-1",
+	transcriptionLanguage: "",
+	transcriptionPromptId: "", // Insert the transcript only
+	responseCacheEnabled: false, // Opt-in: every run asks the model
+	responseCacheTTLHours: 24,
+	responseCacheMaxSizeMB: 10,
+	mockReasoning: "off",
+	mockStreamDelayMs: 30, // Slow enough to watch streaming happen
+	continuationEnabled: false, // Opt-in: every typing pause would send a request
+	continuationDelayMs: 800,
+	continuationMaxTokens: 64,
+	defaultSelectionScope: "paragraph",
+	selectionScopes: {}, // Every command uses the default scope
+	calloutType: "note",
+	calloutTitle: "{title}",
+	outputNoteFolder: "", // Next to the source note
+	defaultReducePrompt: DEFAULT_REDUCE_PROMPT,
 };
 // <DEFAULT_SETTINGS_END>
 
@@ -157,6 +255,12 @@ function normalizeServerAddress(address: string): string {
 }
 // <NORMALIZE_SERVER_ADDRESS_END>
 
+// Reading view selections carry their position in the file, since there is no editor to write into
+interface SelectedText {
+	text: string;
+	readingSelection?: ReadingSelection;
+}
+
 // <PERSONAS_DEFINITIONS_START>
 interface Persona {
 	displayName: string;
@@ -217,7 +321,10 @@ export default class OLocalLLMPlugin extends Plugin {
 	settings: OLocalLLMSettings;
 	modal: any;
 	conversationHistory: ConversationEntry[] = [];
-	isKillSwitchActive: boolean = false;
+	jobs: JobRegistry = new JobRegistry();
+	responseCache: ResponseCache;
+	lastGeneration?: () => Promise<void>; // Re-runs the last editor prompt without the cache
+	private statusBarItemEl: HTMLElement;
 	public ragManager: RAGManager;
 	private backlinkGenerator: BacklinkGenerator;
 	private commandRegistry: Map<string, { id: string; unregister: () => void }>;
@@ -314,9 +421,12 @@ export default class OLocalLLMPlugin extends Plugin {
 		// Initialize command registry to track dynamically created commands
 		this.commandRegistry = new Map();
 
+		this.responseCache = new ResponseCache(this.app.vault.adapter, `${this.manifest.dir}/response-cache.json`, () => ({
+			ttlHours: this.settings.responseCacheTTLHours ?? 24,
+			maxSizeMB: this.settings.responseCacheMaxSizeMB ?? 10,
+		}));
+
 		this.checkForUpdates();
-		// Validate server configuration
-		this.validateServerConfiguration();
 
 		console.log('🧠 LLM Helper: Initializing RAGManager...');
 		// Initialize RAGManager
@@ -332,7 +442,7 @@ export default class OLocalLLMPlugin extends Plugin {
 		}, 500);
 
 		// Initialize BacklinkGenerator
-		this.backlinkGenerator = new BacklinkGenerator(this.ragManager, this.app.vault);
+		this.backlinkGenerator = new BacklinkGenerator(this.ragManager, this.app.vault, this.settings);
 
 		// Add command for RAG Backlinks
 		this.addCommand({
@@ -355,7 +465,7 @@ export default class OLocalLLMPlugin extends Plugin {
 			name: 'Chat with your notes (RAG) - BETA',
 			callback: () => {
 				new Notice("This is a beta feature. Please use with caution. Please make sure you have indexed your notes before using this feature.");
-				const ragChatModal = new RAGChatModal(this.app, this.settings, this.ragManager);
+				const ragChatModal = new RAGChatModal(this.app, this.settings, this.ragManager, this.jobs);
 				ragChatModal.open();
 			},
 		});
@@ -377,41 +487,21 @@ export default class OLocalLLMPlugin extends Plugin {
 		this.addCommand({
 			id: 'select-and-run-custom-prompt',
 			name: 'Select and run custom prompt',
-			callback: () => {
-				if (this.settings.customPrompts && this.settings.customPrompts.length > 0) {
-					// Create a modal to select which prompt to run
-					new SelectPromptModal(this.app, this.settings.customPrompts, (selectedPrompt) => {
-						this.isKillSwitchActive = false;
-						new Notice(`Running prompt: ${selectedPrompt.title}`);
-						let selectedText = this.getSelectedText();
-						if (selectedText.length > 0) {
-							// Use a custom processing function that can handle system prompts properly
-							this.processCustomPromptText(
-								selectedText,
-								selectedPrompt,
-								this
-							);
-						} else {
-							new Notice('No text selected to process with the custom prompt.');
-						}
-					}).open();
-				} else {
-					new Notice('No custom prompts available. Please create some in settings.');
-				}
-			}
+			callback: () => this.selectAndRunCustomPrompt()
 		});
 
 		this.addCommand({
 			id: "gentext-selected-text",
 			name: "Use SELECTED text as your prompt",
-			editorCallback: (editor: Editor, view: MarkdownView) => {
-				this.isKillSwitchActive = false; // Reset kill switch state
-				let selectedText = this.getSelectedText();
-				if (selectedText.length > 0) {
+			callback: () => {
+				const selection = this.getSelectedText(this.scopeFor("gentext-selected-text"));
+				if (selection.text.length > 0) {
 					processText(
-						selectedText,
+						selection.text,
 						"Generate response based on the following text. This is your prompt:",
-						this
+						this,
+						undefined,
+						selection.readingSelection
 					);
 				} else {
 					new Notice('Please select some text to use as prompt');
@@ -420,30 +510,89 @@ export default class OLocalLLMPlugin extends Plugin {
 		});
 
 		this.addCommand({
-			id: "llm-chat",
-			name: "Chat with Local LLM Helper",
+			id: "regenerate-bypass-cache",
+			name: "Regenerate last response (bypass cache)",
 			callback: () => {
-				const chatModal = new LLMChatModal(this.app, this.settings);
-				chatModal.open();
+				if (this.lastGeneration) {
+					this.lastGeneration();
+				} else {
+					new Notice("Nothing to regenerate yet. Run a prompt first");
+				}
 			},
 		});
 
+		this.addCommand({
+			id: "describe-image",
+			name: "Describe image",
+			editorCallback: (editor: Editor) => {
+				this.runImagePrompt(editor, "Describe this image in detail. Mention any text, labels and diagrams it contains.");
+			},
+		});
+
+		this.addCommand({
+			id: "transcribe-whiteboard",
+			name: "Transcribe whiteboard photo to markdown",
+			editorCallback: (editor: Editor) => {
+				this.runImagePrompt(editor, "Transcribe the handwriting and drawings in this whiteboard photo into well-structured markdown. Use headings and lists, render tables as markdown tables and describe diagrams briefly in text. Only output the markdown.");
+			},
+		});
+
+		this.addCommand({
+			id: "continue-at-cursor",
+			name: "Continue at cursor (ghost text)",
+			editorCallback: (editor: Editor) => {
+				const view = getEditorView(editor);
+				if (view) {
+					triggerInlineContinuation(view);
+				}
+			},
+		});
+
+		this.addCommand({
+			id: "toggle-inline-continuation",
+			name: "Toggle inline continuation while typing",
+			callback: async () => {
+				this.settings.continuationEnabled = !this.settings.continuationEnabled;
+				await this.saveSettings();
+				new Notice(`Inline continuation ${this.settings.continuationEnabled ? "enabled" : "disabled"}`);
+			},
+		});
+
+		this.addCommand({
+			id: "transcribe-audio",
+			name: "Transcribe audio note",
+			editorCallback: (editor: Editor) => {
+				this.transcribeAudioNote(editor);
+			},
+		});
+
+		this.addCommand({
+			id: "llm-chat",
+			name: "Chat with Local LLM Helper",
+			callback: () => this.openChat(),
+		});
+
+		this.addCommand({
+			id: "send-selection-to-chat",
+			name: "Send selected text to chat",
+			editorCallback: (editor: Editor) => this.openChat(editor.getSelection()),
+		});
+
 		this.addCommand({
 			id: "llm-hashtag",
 			name: "Generate hashtags for selected text",
 			callback: () => {
-				generateAndAppendTags(this.app, this.settings);
+				generateAndAppendTags(this.app, this.settings, this.jobs);
 			},
 		});
 
 		this.addCommand({
 			id: "web-search-selected-text",
 			name: "Search web for selected text",
-			editorCallback: (editor: Editor, view: MarkdownView) => {
-				this.isKillSwitchActive = false;
-				let selectedText = this.getSelectedText();
-				if (selectedText.length > 0) {
-					processWebSearch(selectedText, this);
+			callback: () => {
+				const selection = this.getSelectedText(this.scopeFor("web-search-selected-text"));
+				if (selection.text.length > 0) {
+					processWebSearch(selection.text, this, selection.readingSelection);
 				}
 			},
 		});
@@ -451,21 +600,32 @@ export default class OLocalLLMPlugin extends Plugin {
 		this.addCommand({
 			id: "web-news-search",
 			name: "Search news (Web) for selected text",
-			editorCallback: (editor: Editor, view: MarkdownView) => {
-				let selectedText = this.getSelectedText();
-				if (selectedText.length > 0) {
-					processNewsSearch(selectedText, this);
+			callback: () => {
+				const selection = this.getSelectedText(this.scopeFor("web-news-search"));
+				if (selection.text.length > 0) {
+					processNewsSearch(selection.text, this, selection.readingSelection);
 				}
 			},
 		});
 
+		this.addCommand({
+			id: "test-connection",
+			name: "Test LLM server connection",
+			callback: () => new ConnectionTestModal(this.app, this.settings).open(),
+		});
+
+		this.addCommand({
+			id: "show-llm-jobs",
+			name: "Show LLM jobs panel",
+			callback: () => this.activateJobsView(),
+		});
+
 		// Add command to cancel ongoing prompt invocations
 		this.addCommand({
 			id: "cancel-prompt-invocation",
 			name: "Cancel ongoing prompt invocation",
 			callback: () => {
-				this.isKillSwitchActive = true;
-				new Notice("Prompt invocation cancelled");
+				this.cancelAllJobs();
 			},
 		});
 
@@ -476,9 +636,7 @@ export default class OLocalLLMPlugin extends Plugin {
 				item
 					.setTitle("Chat with LLM Helper")
 					.setIcon("messages-square")
-					.onClick(() => {
-						new LLMChatModal(this.app, this.settings).open();
-					})
+					.onClick(() => this.openChat())
 			);
 
 			menu.addItem((item) =>
@@ -486,13 +644,14 @@ export default class OLocalLLMPlugin extends Plugin {
 					.setTitle("Use as prompt")
 					.setIcon("lightbulb")
 					.onClick(async () => {
-						this.isKillSwitchActive = false; // Reset kill switch state
-						let selectedText = this.getSelectedText();
-						if (selectedText.length > 0) {
+						const selection = this.getSelectedText(this.scopeFor("gentext-selected-text"));
+						if (selection.text.length > 0) {
 							processText(
-								selectedText,
+								selection.text,
 								"Generate response based on the following text. This is your prompt:",
-								this
+								this,
+								undefined,
+								selection.readingSelection
 							);
 						}
 					})
@@ -513,18 +672,7 @@ export default class OLocalLLMPlugin extends Plugin {
 									subItem
 										.setTitle(prompt.title)
 										.setIcon("file-text")
-										.onClick(async () => {
-											this.isKillSwitchActive = false; // Reset kill switch state
-											new Notice(`Running prompt: ${prompt.title}`);
-											let selectedText = this.getSelectedText();
-											if (selectedText.length > 0) {
-												processText(
-													selectedText,
-													prompt.prompt,
-													this
-												);
-											}
-										})
+										.onClick(() => this.runCustomPrompt(prompt))
 								);
 							});
 							submenu.showAtMouseEvent(event as MouseEvent);
@@ -537,16 +685,17 @@ export default class OLocalLLMPlugin extends Plugin {
 						.setTitle("Custom prompt")
 						.setIcon("pencil")
 						.onClick(async () => {
-							this.isKillSwitchActive = false; // Reset kill switch state
 							new Notice(
 								"Custom prompt: " + this.settings.customPrompt
 							);
-							let selectedText = this.getSelectedText();
-							if (selectedText.length > 0) {
+							const selection = this.getSelectedText(this.scopeFor());
+							if (selection.text.length > 0) {
 								processText(
-									selectedText,
+									selection.text,
 									this.settings.customPrompt,
-									this
+									this,
+									undefined,
+									selection.readingSelection
 								);
 							}
 						})
@@ -561,9 +710,8 @@ export default class OLocalLLMPlugin extends Plugin {
 						new Notice(
 							"Generating hashtags"
 						);
-						let selectedText = this.getSelectedText();
-						if (selectedText.length > 0) {
-							generateAndAppendTags(this.app, this.settings);
+						if (this.getSelectedText().text.length > 0) {
+							generateAndAppendTags(this.app, this.settings, this.jobs);
 						}
 					})
 			);
@@ -573,9 +721,9 @@ export default class OLocalLLMPlugin extends Plugin {
 					.setTitle("Search (Web)")
 					.setIcon("globe")
 					.onClick(async () => {
-						let selectedText = this.getSelectedText();
-						if (selectedText.length > 0) {
-							processWebSearch(selectedText, this);
+						const selection = this.getSelectedText(this.scopeFor("web-search-selected-text"));
+						if (selection.text.length > 0) {
+							processWebSearch(selection.text, this, selection.readingSelection);
 						}
 					})
 			);
@@ -585,9 +733,9 @@ export default class OLocalLLMPlugin extends Plugin {
 					.setTitle("News Search (Web)")
 					.setIcon("newspaper")
 					.onClick(async () => {
-						let selectedText = this.getSelectedText();
-						if (selectedText.length > 0) {
-							processNewsSearch(selectedText, this);
+						const selection = this.getSelectedText(this.scopeFor("web-news-search"));
+						if (selection.text.length > 0) {
+							processNewsSearch(selection.text, this, selection.readingSelection);
 						}
 					})
 			);
@@ -597,16 +745,30 @@ export default class OLocalLLMPlugin extends Plugin {
 					.setTitle("Cancel LLM Process")
 					.setIcon("x-circle")
 					.onClick(() => {
-						this.isKillSwitchActive = true;
-						new Notice("LLM Helper process cancelled");
+						this.cancelAllJobs();
 					})
 			);
 
 			menu.showAtMouseEvent(event as MouseEvent);
 		});
 
-		const statusBarItemEl = this.addStatusBarItem();
-		statusBarItemEl.setText("LLM Helper: Ready");
+		this.statusBarItemEl = this.addStatusBarItem();
+		this.statusBarItemEl.addClass("mod-clickable");
+		this.statusBarItemEl.setAttribute("aria-label", "Running LLM jobs");
+		this.registerDomEvent(this.statusBarItemEl, "click", (event) => this.showJobsMenu(event));
+		this.registerView(JOBS_VIEW_TYPE, (leaf) => new JobsView(leaf, this.jobs));
+		this.registerView(RESPONSE_PREVIEW_VIEW_TYPE, (leaf) => new ResponsePreviewView(leaf));
+		this.registerEditorExtension(anchoredInsertionTracker);
+		this.registerEditorExtension(scopeHighlightField);
+		this.registerMarkdownPostProcessor((el, ctx) => trackReadingSection(el, ctx));
+		this.registerEditorExtension(inlineContinuationExtension({
+			enabled: () => this.settings.continuationEnabled === true,
+			delayMs: () => this.settings.continuationDelayMs ?? 800,
+			complete: (prefix, signal) => this.completeContinuation(prefix, signal),
+		}));
+		this.registerEvent(this.app.workspace.on("editor-menu", (menu, editor) => this.addEditorMenu(menu, editor)));
+		this.register(this.jobs.onChange(() => this.updateStatusBar()));
+		this.updateStatusBar();
 
 		this.addSettingTab(new OLLMSettingTab(this.app, this));
 
@@ -624,67 +786,154 @@ export default class OLocalLLMPlugin extends Plugin {
 	// <REFRESH_CUSTOM_PROMPT_COMMANDS_END>
 
 
-	// <VALIDATE_SERVER_CONFIGURATION_START>
-	/* Contract: Validate server configuration settings --> Check provider type and server address format --> Return boolean indicating if configuration is valid */
-	private validateServerConfiguration(): boolean {
-		const provider = this.settings.providerType;
-		const serverAddress = this.settings.serverAddress;
-		const embeddingModel = this.settings.embeddingModelName;
-
-		console.log(`Validating configuration - Provider: ${provider}, Server: ${serverAddress}, Embedding Model: ${embeddingModel}`);
-
-		if (provider === 'ollama') {
-			// Ollama typically runs on port 11434
-			if (!serverAddress.includes('11434') && !serverAddress.includes('ollama')) {
-				console.warn('Ollama provider detected but server address might be incorrect. Ollama typically runs on port 11434.');
-				return false;
-			}
-
-			// Check for common embedding models
-			const commonOllamaModels = ['mxbai-embed-large', 'nomic-embed-text', 'all-minilm'];
-			if (!commonOllamaModels.some(model => embeddingModel.includes(model))) {
-				console.warn(`Embedding model "${embeddingModel}" might not be compatible with Ollama. Common models: ${commonOllamaModels.join(', ')}`);
-			}
-		} else if (provider === 'openai' || provider === 'lm-studio') {
-			// LM Studio typically runs on port 1234
-			if (!serverAddress.includes('1234') && !serverAddress.includes('openai')) {
-				console.warn('OpenAI/LM Studio provider detected but server address might be incorrect. LM Studio typically runs on port 1234.');
-				return false;
-			}
-		}
-
-		return true;
-	}
-	// <VALIDATE_SERVER_CONFIGURATION_END>
-
 	// <GET_SELECTED_TEXT_START>
-	/* Contract: Get currently selected text in active view --> Access the active markdown view and retrieve selected text --> Return selected text string or empty string if none */
-	private getSelectedText() {
+	/* Contract: Get currently selected text in active view --> Access the active markdown view and retrieve selected text, or select and flash the fallback scope when nothing is selected; in reading view map the rendered selection to its source --> Return the selected text (empty if none) and, in reading view, where it sits in the file */
+	private getSelectedText(scope: SelectionScope = "none"): SelectedText {
 		let view = this.app.workspace.getActiveViewOfType(MarkdownView);
 		if (!view) {
 			new Notice("No active view");
-			return "";
+			return { text: "" };
 		} else {
 			let view_mode = view.getMode();
 			switch (view_mode) {
-				case "preview":
-					new Notice("Does not work in preview preview");
-					return "";
+				case "preview": {
+					// Scopes need a cursor, so reading view always needs a selection
+					const readingSelection = captureReadingSelection(view);
+					return readingSelection ? { text: readingSelection.text, readingSelection } : { text: "" };
+				}
 				case "source":
 					if ("editor" in view) {
-						return view.editor.getSelection();
+						const editor = view.editor;
+						if (editor.somethingSelected() || scope === "none") {
+							return { text: editor.getSelection() };
+						}
+						const range = resolveScope(editor, scope);
+						if (!range) {
+							return { text: "" };
+						}
+						// Output modes place the answer relative to the selection, so the scope becomes the selection
+						editor.setSelection(range.from, range.to);
+						flashRange(editor, range);
+						return { text: editor.getSelection() };
 					}
 					break;
 				default:
 					new Notice("Unknown view mode");
-					return "";
+					return { text: "" };
 			}
 		}
-		return "";
+		return { text: "" };
+	}
+
+	// Fallback scope of a command when nothing is selected; custom prompts pass their own scope
+	private scopeFor(commandId?: string): SelectionScope {
+		return (commandId && this.settings.selectionScopes?.[commandId]) || this.settings.defaultSelectionScope || "paragraph";
 	}
 	// <GET_SELECTED_TEXT_END>
 
-	onunload() { }
+	// <JOB_CONTROL_START>
+	/* Contract: Reflect running jobs in the status bar --> Read the job registry size --> Show "Ready" or the number of running generations */
+	private updateStatusBar() {
+		const running = this.jobs.runningCount;
+		const queued = this.jobs.queuedCount;
+		if (running === 0 && queued === 0) {
+			this.statusBarItemEl.setText("LLM Helper: Ready");
+			return;
+		}
+
+		let text = `LLM Helper: Generating (${running})` + (queued > 0 ? `, ${queued} queued` : "") + "...";
+		const withProgress = this.jobs.list().find(job => job.status === "running" && job.progress);
+		if (withProgress) {
+			text += ` ${withProgress.label}: ${withProgress.progress}`;
+		}
+		this.statusBarItemEl.setText(text);
+	}
+
+	/* Contract: Apply queue settings --> Pass concurrency and priorities from settings to the job registry --> Queue honours the latest configuration */
+	private configureJobQueue() {
+		this.jobs.configure({
+			concurrency: this.settings.maxConcurrentJobs,
+			priorities: this.settings.jobPriorities,
+		});
+	}
+
+	/* Contract: Open the jobs panel --> Reuse an existing jobs leaf or create one in the right sidebar --> Reveal the panel */
+	async activateJobsView() {
+		let leaf = this.app.workspace.getLeavesOfType(JOBS_VIEW_TYPE)[0];
+		if (!leaf) {
+			const rightLeaf = this.app.workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			await rightLeaf.setViewState({ type: JOBS_VIEW_TYPE, active: true });
+			leaf = rightLeaf;
+		}
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	/* Contract: Open the response preview pane --> Reuse an existing preview leaf or create one in the right sidebar --> Return the revealed view, null when no leaf could be created */
+	async openResponsePreview(): Promise<ResponsePreviewView | null> {
+		let leaf = this.app.workspace.getLeavesOfType(RESPONSE_PREVIEW_VIEW_TYPE)[0];
+		if (!leaf) {
+			const rightLeaf = this.app.workspace.getRightLeaf(false);
+			if (!rightLeaf) return null;
+			await rightLeaf.setViewState({ type: RESPONSE_PREVIEW_VIEW_TYPE, active: true });
+			leaf = rightLeaf;
+		}
+		await this.app.workspace.revealLeaf(leaf);
+		return leaf.view instanceof ResponsePreviewView ? leaf.view : null;
+	}
+
+	/* Contract: Status bar click target --> Link to the jobs panel, list queued/running jobs and offer per-job and global cancel --> Abort the chosen jobs' HTTP requests */
+	private showJobsMenu(event: MouseEvent) {
+		const jobs = this.jobs.list();
+		const menu = new Menu();
+		menu.addItem((item) =>
+			item
+				.setTitle("Open jobs panel")
+				.setIcon("list-checks")
+				.onClick(() => this.activateJobsView())
+		);
+		if (jobs.length === 0) {
+			menu.showAtMouseEvent(event);
+			return;
+		}
+
+		menu.addSeparator();
+		jobs.forEach(job => {
+			const seconds = Math.round((Date.now() - (job.startedAt ?? job.queuedAt)) / 1000);
+			const state = job.status === "queued" ? "queued" : `${seconds}s`;
+			menu.addItem((item) =>
+				item
+					.setTitle(`Cancel: ${job.label} (${state})`)
+					.setIcon("x")
+					.onClick(() => {
+						if (this.jobs.cancel(job.id)) {
+							new Notice(`Cancelled: ${job.label}`);
+						}
+					})
+			);
+		});
+		menu.addSeparator();
+		menu.addItem((item) =>
+			item
+				.setTitle("Cancel all")
+				.setIcon("x-circle")
+				.onClick(() => this.cancelAllJobs())
+		);
+		menu.showAtMouseEvent(event);
+	}
+
+	/* Contract: Cancel every running generation --> Abort all registered jobs --> Notify how many were stopped */
+	cancelAllJobs() {
+		const cancelled = this.jobs.cancelAll();
+		new Notice(cancelled > 0
+			? `Cancelled ${cancelled} LLM job${cancelled === 1 ? "" : "s"}`
+			: "No LLM jobs running");
+	}
+	// <JOB_CONTROL_END>
+
+	onunload() {
+		this.jobs.cancelAll();
+	}
 
 	// <REGISTER_PROMPT_COMMAND_START>
 	/* Contract: Register a command for a specific prompt dynamically --> Create and register an Obsidian command for the custom prompt --> Command becomes available in command palette */
@@ -702,21 +951,8 @@ export default class OLocalLLMPlugin extends Plugin {
 		const command = this.addCommand({
 			id: commandId,
 			name: `Run - ${prompt.title}`,
-			editorCallback: (editor: Editor, view: MarkdownView) => {
-				this.isKillSwitchActive = false; // Reset kill switch state
-				new Notice(`Running prompt: ${prompt.title}`);
-				let selectedText = this.getSelectedText();
-				if (selectedText.length > 0) {
-					// Use the custom processing function that can handle system prompts properly
-					this.processCustomPromptText(
-						selectedText,
-						prompt,
-						this
-					);
-				} else {
-					new Notice(`No text selected for prompt: ${prompt.title}`);
-				}
-			},
+			// Not an editor command, so prompts also run from reading view
+			callback: () => this.runCustomPrompt(prompt),
 		});
 
 		// Store the command in our registry with an unregister function
@@ -758,26 +994,93 @@ export default class OLocalLLMPlugin extends Plugin {
 	}
 	// <REGISTER_ALL_PROMPT_COMMANDS_END>
 
+	// <RUN_CUSTOM_PROMPT_START>
+	/* Contract: Run a custom prompt on the selection --> Send it through processCustomPromptText so the prompt's system prompt, profile and output mode apply --> Shared by commands, the prompt picker, the ribbon and the editor menu */
+	runCustomPrompt(prompt: CustomPrompt) {
+		const selection = this.getSelectedText(prompt.scope ?? this.scopeFor());
+		if (selection.text.length === 0) {
+			new Notice(`No text selected for prompt: ${prompt.title}`);
+			return;
+		}
+		new Notice(`Running prompt: ${prompt.title}`);
+		this.processCustomPromptText(selection.text, prompt, this, selection.readingSelection);
+	}
+
+	selectAndRunCustomPrompt() {
+		if (!this.settings.customPrompts || this.settings.customPrompts.length === 0) {
+			new Notice('No custom prompts available. Please create some in settings.');
+			return;
+		}
+		new SelectPromptModal(this.app, this.settings.customPrompts, (selectedPrompt) => this.runCustomPrompt(selectedPrompt)).open();
+	}
+
+	openChat(initialInput = "") {
+		new LLMChatModal(this.app, this.settings, this.jobs, this.createChatTools(), initialInput).open();
+	}
+	// <RUN_CUSTOM_PROMPT_END>
+
+	// <EDITOR_MENU_START>
+	/* Contract: Add the "LLM Helper" entry to the editor context menu --> Nest favorite prompts, the prompt picker, tagging, web search and chat under it --> Every item uses the same path as its command */
+	addEditorMenu(menu: Menu, editor: Editor) {
+		menu.addItem((item) => {
+			item.setTitle("LLM Helper").setIcon("brain-cog").setSection("action");
+			// Nested submenus work in current Obsidian versions but are missing from the API typings
+			const setSubmenu = (item as MenuItem & { setSubmenu?: () => Menu }).setSubmenu;
+			if (setSubmenu) {
+				this.fillEditorMenu(setSubmenu.call(item), editor);
+			} else {
+				item.onClick((event) => {
+					const submenu = new Menu();
+					this.fillEditorMenu(submenu, editor);
+					submenu.showAtMouseEvent(event as MouseEvent);
+				});
+			}
+		});
+	}
+
+	private fillEditorMenu(menu: Menu, editor: Editor) {
+		const favorites = (this.settings.customPrompts || []).filter(prompt => prompt.favorite);
+		for (const prompt of favorites) {
+			menu.addItem((item) => item
+				.setTitle(prompt.title)
+				.setIcon("star")
+				.onClick(() => this.runCustomPrompt(prompt)));
+		}
+		menu.addItem((item) => item
+			.setTitle(favorites.length > 0 ? "Other custom prompts..." : "Custom prompts...")
+			.setIcon("pencil")
+			.onClick(() => this.selectAndRunCustomPrompt()));
+		menu.addSeparator();
+		menu.addItem((item) => item
+			.setTitle("Generate tags")
+			.setIcon("hash")
+			.setDisabled(!editor.somethingSelected())
+			.onClick(() => generateAndAppendTags(this.app, this.settings, this.jobs)));
+		menu.addItem((item) => item
+			.setTitle("Search (Web)")
+			.setIcon("globe")
+			.onClick(() => {
+				const selection = this.getSelectedText(this.scopeFor("web-search-selected-text"));
+				if (selection.text.length > 0) {
+					processWebSearch(selection.text, this, selection.readingSelection);
+				}
+			}));
+		menu.addItem((item) => item
+			.setTitle("Send to chat")
+			.setIcon("messages-square")
+			.onClick(() => this.openChat(editor.getSelection())));
+	}
+	// <EDITOR_MENU_END>
+
 	// <PROCESS_CUSTOM_PROMPT_TEXT_START>
 	/* Contract: Process custom prompt with proper system prompt handling --> Send selected text and custom prompt to LLM with appropriate system context --> Generate and insert AI response in editor */
 	// Method to process custom prompt text with proper system prompt handling
 	async processCustomPromptText(
 		selectedText: string,
 		customPrompt: CustomPrompt,
-		plugin: OLocalLLMPlugin
+		plugin: OLocalLLMPlugin,
+		readingSelection?: ReadingSelection
 	) {
-		// Reset kill switch state at the beginning of each process
-		plugin.isKillSwitchActive = false;
-
-		new Notice("Generating response. This takes a few seconds..");
-		const statusBarItemEl = document.querySelector(
-			".status-bar .status-bar-item"
-		);
-		if (statusBarItemEl) {
-			statusBarItemEl.textContent = "LLM Helper: Generating response...";
-		} else {
-			console.error("Status bar item element not found");
-		}
 
 		// Use the custom prompt's text directly
 		const prompt = customPrompt.prompt;
@@ -803,169 +1106,41 @@ export default class OLocalLLMPlugin extends Plugin {
 
 		console.log("system message", systemMessage);
 
-		const body = {
-			model: plugin.settings.llmModel,
-			messages: [
-				{ role: "system", content: systemMessage },
-				...plugin.conversationHistory.slice(-plugin.settings.maxConvHistory).reduce((acc, entry) => {
-					acc.push({ role: "user", content: entry.prompt });
-					acc.push({ role: "assistant", content: entry.response });
-					return acc;
-				}, [] as { role: string; content: string }[]),
-				{ role: "user", content: userMessageContent },
-			],
-			temperature: plugin.settings.temperature,
-			max_tokens: plugin.settings.maxTokens,
-			stream: plugin.settings.stream,
-		};
-
-		try {
-			if (plugin.settings.outputMode === "append") {
-				modifySelectedText(selectedText + "\n\n", plugin.app);
-			}
-			if (plugin.settings.responseFormatting === true) {
-				modifySelectedText(plugin.settings.responseFormatPrepend, plugin.app);
-			}
-			if (plugin.settings.stream) {
-				const response = await fetch(
-					`${plugin.settings.serverAddress}/chat/completions`,
-					{
-						method: "POST",
-						headers: { "Content-Type": "application/json" },
-						body: JSON.stringify(body),
-					}
-				);
-
-				if (!response.ok) {
-					throw new Error(
-						"Error generating text (Fetch): " + response.statusText
-					);
-				}
-
-				const reader = response.body && response.body.getReader();
-				let responseStr = "";
-				if (!reader) {
-					console.error("Reader not found");
-					throw new Error("Response reader not available for streaming");
-				} else {
-					const decoder = new TextDecoder();
-
-					try {
-						while (true) {
-							if (plugin.isKillSwitchActive) {
-								await reader.cancel();
-								new Notice("Text generation stopped by kill switch");
-								plugin.isKillSwitchActive = false; // Reset the kill switch
-								break;
-							}
-
-							const { done, value } = await reader.read();
-
-							if (done) {
-								// Extract actual response if this is a reasoning model
-								const finalResponse = extractActualResponse(responseStr, plugin.settings);
-
-								new Notice("Text generation complete. Voila!");
-								updateConversationHistory(prompt + ": " + selectedText, finalResponse, plugin.conversationHistory, plugin.settings.maxConvHistory);
-								if (plugin.settings.responseFormatting === true) {
-									modifySelectedText(plugin.settings.responseFormatAppend, plugin.app);
-								}
-								break;
-							}
-
-							let textChunk = decoder.decode(value);
-							const lines = textChunk.split("\n");
-
-							for (const line of lines) {
-								if (line.trim()) {
-									try {
-										let modifiedLine = line.replace(
-											/^data:\s*/,
-											""
-										);
-										if (modifiedLine !== "[DONE]") {
-											const data = JSON.parse(modifiedLine);
-											// Check for both content and reasoning in the delta
-											let word = data.choices[0].delta.content || data.choices[0].delta.reasoning || '';
-											if (word) {
-												modifySelectedText(word, plugin.app);
-												responseStr += word;
-											}
-										}
-									} catch (error) {
-										console.error(
-											"Error parsing JSON chunk:",
-											error
-										);
-									}
-								}
-							}
-						}
-					} finally {
-						reader.releaseLock();
-					}
-				}
-			} else {
-				const response = await requestUrl({
-					url: `${plugin.settings.serverAddress}/chat/completions`,
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(body),
-				});
-
-				const statusCode = response.status;
-
-				if (statusCode >= 200 && statusCode < 300) {
-					const data = await response.json;
-					
-					// Validate response structure
-					if (!data?.choices?.[0]?.message) {
-						console.error("Invalid response format from server:", data);
-						throw new Error("Invalid response from server. Expected 'choices[0].message' in response. Check console for details.");
-					}
-					
-					let content = data.choices[0].message.content || '';
-					let reasoning = data.choices[0].message.reasoning || '';
-
-					// If content is empty but reasoning exists, use reasoning as the source
-					let generatedText = content;
-					if ((!content || content.trim().length === 0) && reasoning && reasoning.trim().length > 0) {
-						generatedText = reasoning;
-					}
-
-					// Extract actual response if this is a reasoning model
-					generatedText = extractActualResponse(generatedText, plugin.settings);
-
-					console.log(generatedText);
-					updateConversationHistory(prompt + ": " + selectedText, generatedText, plugin.conversationHistory, plugin.settings.maxConvHistory);
-					new Notice("Text generated. Voila!");
-					if (!plugin.isKillSwitchActive) {
-						if (plugin.settings.responseFormatting === true) {
-							modifySelectedText(generatedText + plugin.settings.responseFormatAppend, plugin.app);
-						} else {
-							modifySelectedText(generatedText, plugin.app);
-						}
-					} else {
-						new Notice("Text generation stopped by kill switch");
-						plugin.isKillSwitchActive = false; // Reset the kill switch
-					}
-				} else {
-					throw new Error(
-						"Error processing custom prompt (requestUrl): " + response.text
-					);
-				}
+		const messages = buildChatMessages(
+			systemMessage,
+			plugin.conversationHistory,
+			plugin.settings.maxConvHistory,
+			userMessageContent
+		);
+		const chunkedMessages = createMapReducePreparer(plugin, systemMessage, prompt, selectedText, customPrompt.reducePrompt);
+
+		let jsonSchema: JSONSchema | undefined;
+		if (customPrompt.structured) {
+			try {
+				jsonSchema = customPrompt.jsonSchema?.trim() ? JSON.parse(customPrompt.jsonSchema) : ANY_OBJECT_SCHEMA;
+			} catch (error) {
+				new Notice(`Invalid JSON schema in prompt "${customPrompt.title}"`);
+				return;
 			}
-		} catch (error) {
-			console.error("Error during request:", error);
-			new Notice(
-				"Error processing custom prompt: Check plugin console for details!"
-			);
-		}
-		if (statusBarItemEl) {
-			statusBarItemEl.textContent = "LLM Helper: Ready";
-		} else {
-			console.error("Status bar item element not found");
 		}
+
+		await generateIntoEditor(
+			plugin,
+			customPrompt.title,
+			customPrompt.chunked ? chunkedMessages : messages,
+			prompt + ": " + selectedText,
+			selectedText,
+			"Error processing custom prompt: Check plugin console for details!",
+			{
+				profileId: customPrompt.profileId,
+				chunkedMessages,
+				sampling: customPrompt.sampling,
+				jsonSchema,
+				keyMessages: messages,
+				outputMode: customPrompt.outputMode,
+				readingSelection,
+			}
+		);
 	}
 	// <PROCESS_CUSTOM_PROMPT_TEXT_END>
 
@@ -986,6 +1161,8 @@ export default class OLocalLLMPlugin extends Plugin {
 		// Normalize server address to ensure protocol is present
 		this.settings.serverAddress = normalizeServerAddress(this.settings.serverAddress);
 
+		this.configureJobQueue();
+
 		// Populate default custom prompts if not already present
 		if (!this.settings.customPrompts || this.settings.customPrompts.length === 0) {
 			this.settings.customPrompts = await this.loadDefaultCustomPrompts();
@@ -1050,6 +1227,7 @@ export default class OLocalLLMPlugin extends Plugin {
 	/* Contract: Save plugin settings to storage --> Persist current settings to data.json file --> Settings preserved across Obsidian restarts */
 	async saveSettings() {
 		await this.saveData(this.settings);
+		this.configureJobQueue();
 
 		// Update RAG manager with new settings
 		if (this.ragManager) {
@@ -1064,20 +1242,156 @@ export default class OLocalLLMPlugin extends Plugin {
 	async indexNotes() {
 		new Notice('Indexing notes for RAG...');
 		try {
-			await this.ragManager.indexNotes(progress => {
+			await this.jobs.run('Index notes', (signal) => this.ragManager.indexNotes(progress => {
 				// You can use the progress value here if needed
 				console.log(`Indexing progress: ${progress * 100}%`);
-			});
+			}, signal), { kind: 'indexing', retry: () => this.indexNotes() });
 			new Notice('Notes indexed successfully!');
 		} catch (error) {
+			if (isAbortError(error)) {
+				new Notice('Indexing cancelled');
+				return;
+			}
 			console.error('Error indexing notes:', error);
 			new Notice('Failed to index notes. Check console for details.');
 		}
 	}
 	// <INDEX_NOTES_END>
 
+	// <RUN_IMAGE_PROMPT_START>
+	/* Contract: Run a prompt on embedded images --> Use the selection or the image embed on the cursor line, check the model accepts images --> processText attaches the images and writes the answer */
+	runImagePrompt(editor: Editor, prompt: string) {
+		if (!isVisionModel(this.settings)) {
+			new Notice(`Mark ${this.settings.llmModel} as a vision model in settings to send it images`);
+			return;
+		}
+		let selectedText = editor.getSelection();
+		if (!selectedText) {
+			// Select the embed line so replace/append modes know where the answer goes
+			const line = editor.getCursor().line;
+			const lineText = editor.getLine(line);
+			if (findImageEmbeds(lineText).length > 0) {
+				editor.setSelection({ line, ch: 0 }, { line, ch: lineText.length });
+				selectedText = lineText;
+			}
+		}
+		if (findImageEmbeds(selectedText).length === 0) {
+			new Notice("Select an image embed or put the cursor on a line with one");
+			return;
+		}
+		processText(selectedText, prompt, this);
+	}
+	// <RUN_IMAGE_PROMPT_END>
+
+	// <TRANSCRIBE_AUDIO_NOTE_START>
+	/* Contract: Transcribe a voice memo --> Find the audio embed in the selection or on the cursor line, transcribe it as a queued job and insert the transcript under the embed --> Optionally run the follow-up custom prompt on the transcript */
+	async transcribeAudioNote(editor: Editor) {
+		const selection = editor.getSelection();
+		const embedLine = editor.getCursor("to").line;
+		const link = findAudioLink(selection || editor.getLine(embedLine));
+		if (!link) {
+			new Notice("Select an audio embed (m4a, webm, wav...) or put the cursor on a line with one");
+			return;
+		}
+		const file = resolveAudioFile(this.app, link, this.app.workspace.getActiveFile()?.path || "");
+		if (!file) {
+			new Notice(`Audio file not found: ${link}`);
+			return;
+		}
+		const anchorText = editor.getLine(embedLine);
+
+		let transcript: string;
+		try {
+			new Notice(`Transcribing ${file.name}. Long recordings take a while..`);
+			transcript = await this.jobs.run(`Transcribe ${file.name}`, (signal) => transcribeAudio(this.app, file, this.settings, signal), {
+				kind: "prompt",
+				retry: () => this.transcribeAudioNote(editor),
+			});
+		} catch (error) {
+			if (isAbortError(error)) {
+				new Notice("Transcription cancelled");
+				return;
+			}
+			console.error("Error transcribing audio:", error);
+			new Notice(`Error transcribing audio: ${error instanceof Error ? error.message : String(error)}`);
+			return;
+		}
+		if (!transcript) {
+			new Notice(`No speech found in ${file.name}`);
+			return;
+		}
+
+		// The note may have been edited while the job ran, so look for the embed line again
+		let line = Math.min(embedLine, editor.lineCount() - 1);
+		if (editor.getLine(line) !== anchorText) {
+			for (let i = 0; i < editor.lineCount(); i++) {
+				if (editor.getLine(i) === anchorText) {
+					line = i;
+					break;
+				}
+			}
+		}
+		editor.replaceRange(`\n\n${transcript}\n`, { line, ch: editor.getLine(line).length });
+
+		const followUp = this.settings.customPrompts?.find(prompt => prompt.id === this.settings.transcriptionPromptId);
+		if (!followUp) return;
+		if (this.app.workspace.activeEditor?.editor !== editor) {
+			new Notice(`Transcript inserted. Skipped "${followUp.title}" because the note is no longer active`);
+			return;
+		}
+		const transcriptLines = transcript.split("\n");
+		const start = { line: line + 2, ch: 0 };
+		const end = { line: line + 1 + transcriptLines.length, ch: transcriptLines[transcriptLines.length - 1].length };
+		const outputMode = followUp.outputMode || this.settings.outputMode;
+		if (outputMode === "append" || outputMode === "review") {
+			// Append mode writes the selection back followed by the answer, review mode diffs against it
+			editor.setSelection(start, end);
+		} else if (outputMode === "replace") {
+			editor.setCursor(end);
+			editor.replaceSelection("\n\n");
+		} else {
+			// The other modes find their own place below the transcript
+			editor.setCursor(end);
+		}
+		await this.processCustomPromptText(transcript, followUp, this);
+	}
+	// <TRANSCRIBE_AUDIO_NOTE_END>
+
+	// <COMPLETE_CONTINUATION_START>
+	/* Contract: Continue the text before the cursor --> Ask the continuation profile for a short, non-streamed answer in the persona's voice --> Return the continuation, empty when cancelled */
+	async completeContinuation(prefix: string, signal: AbortSignal): Promise<string> {
+		const llmSettings = resolveProfileSettings(this.settings, this.settings.continuationProfileId);
+		// Not queued as a job: suggestions are cancelled on every keystroke and must not wait behind prompts
+		const client = new LLMClient(llmSettings);
+		const result = await client.chat({
+			messages: [
+				{ role: "system", content: "You continue the user's text. Reply with the continuation only: no quotes, no commentary and no repetition of the given text. Match its language, tone and formatting." },
+				{ role: "user", content: modifyPrompt(`Continue this text:\n\n${prefix}`, this.settings.personas) },
+			],
+			stream: false,
+			maxTokens: this.settings.continuationMaxTokens ?? 64,
+		}, { signal });
+		if (result.cancelled) return "";
+		return extractActualResponse(result.text, this.settings).trimEnd();
+	}
+	// <COMPLETE_CONTINUATION_END>
+
+	// <CREATE_CHAT_TOOLS_START>
+	/* Contract: Build the tools the chat modal may call --> Bind vault tools to the app, the RAG index and the configured web search --> Return no tools when disabled in settings */
+	createChatTools(): ChatTool[] {
+		if (this.settings.chatToolsEnabled === false) {
+			return [];
+		}
+		return createVaultTools({
+			app: this.app,
+			ragManager: this.ragManager,
+			webSearch: (query) => searchWeb(query, this),
+		});
+	}
+	// <CREATE_CHAT_TOOLS_END>
+
 	// <HANDLE_GENERATE_BACKLINKS_START>
-	/* Contract: Generate backlinks for selected text --> Find related notes using RAG and create backlink references --> Insert backlinks to related notes in current note */
+	/* Contract: Generate backlinks for selected text --> Find related notes using RAG, let the model pick the related ones, as a queued job --> Insert backlinks to related notes in current note */
 	async handleGenerateBacklinks() {
 		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
 		if (!activeView) {
@@ -1094,7 +1408,20 @@ export default class OLocalLLMPlugin extends Plugin {
 		}
 
 		new Notice('Generating backlinks...');
-		const backlinks = await this.backlinkGenerator.generateBacklinks(selectedText);
+		let backlinks: string[];
+		try {
+			backlinks = await this.jobs.run("Generate backlinks", (signal) => this.backlinkGenerator.generateBacklinks(selectedText, signal), {
+				kind: "prompt",
+			});
+		} catch (error) {
+			if (isAbortError(error)) {
+				new Notice('Backlink generation cancelled');
+			} else {
+				console.error('Error generating backlinks:', error);
+				new Notice('Error generating backlinks. Check the console for details.');
+			}
+			return;
+		}
 
 		if (backlinks.length > 0) {
 			editor.replaceSelection(`${selectedText}\n\nRelated:\n${backlinks.join('\n')}`);
@@ -1200,26 +1527,34 @@ class OLLMSettingTab extends PluginSettingTab {
 		const { containerEl } = this;
 
 		containerEl.empty();
+		this.modelStatuses = [];
+
+		// Load the server's model list once per settings session; the refresh buttons reload it
+		if (!this.discoveredModels && !this.modelDiscoveryError && !this.isDiscoveringModels) {
+			this.refreshDiscoveredModels();
+		}
 
 		// In the OLLMSettingTab class's display() method, add these new settings:
 		new Setting(containerEl)
 			.setName("LLM Provider")
-			.setDesc("Choose between Ollama and OpenAI-compatible providers")
+			.setDesc("Choose between Ollama and OpenAI-compatible providers. Mock needs no server and answers with a transcript of the request, for developing prompts; note indexing and chat with notes use local word-hashing embeddings")
 			.addDropdown(dropdown =>
 				dropdown
 					.addOption('ollama', 'Ollama')
 					.addOption('openai', 'OpenAI/LM Studio')
+					.addOption('mock', 'Mock (offline echo)')
 					.setValue(this.plugin.settings.providerType)
-					.onChange(async (value: 'ollama' | 'openai') => {
+					.onChange(async (value: 'ollama' | 'openai' | 'mock') => {
 						this.plugin.settings.providerType = value;
 						await this.plugin.saveSettings();
+						this.clearDiscoveredModels(); // Model list belongs to the previous provider
 						this.display(); // Refresh settings UI
 					})
 			);
 
 		new Setting(containerEl)
 			.setName("Server URL")
-			.setDesc("Full server URL including /v1 if required by your provider. E.g., http://localhost:11434/v1 for Ollama or http://localhost:1234/v1 for LM Studio")
+			.setDesc("Full server URL including /v1 if required by your provider. E.g., http://localhost:11434/v1 for Ollama or http://localhost:1234/v1 for LM Studio. Ollama chat uses the native /api/chat endpoint, so the /v1 suffix is ignored there")
 			.addText((text) =>
 				text
 					.setPlaceholder("Enter full server URL")
@@ -1227,21 +1562,178 @@ class OLLMSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.serverAddress = normalizeServerAddress(value);
 						await this.plugin.saveSettings();
+						// Model list belongs to the previous server; reload it once typing pauses
+						this.clearDiscoveredModels();
+						this.renderModelStatuses();
+						this.scheduleModelDiscovery();
 					})
 			);
 
-		new Setting(containerEl)
-			.setName("LLM model")
-			.setDesc("Use this for Ollama and other servers that require this. LMStudio seems to ignore model name.")
-			.addText((text) =>
-				text
-					.setPlaceholder("Model name")
-					.setValue(this.plugin.settings.llmModel)
-					.onChange(async (value) => {
-						this.plugin.settings.llmModel = value;
-						await this.plugin.saveSettings();
-					})
-			);
+		const llmModelSetting = new Setting(containerEl)
+			.setName("LLM model")
+			.setDesc("Use this for Ollama and other servers that require this. LMStudio seems to ignore model name.")
+			.addText((text) => {
+				text
+					.setPlaceholder("Model name")
+					.setValue(this.plugin.settings.llmModel)
+					.onChange(async (value) => {
+						this.plugin.settings.llmModel = value;
+						await this.plugin.saveSettings();
+						this.renderModelStatuses();
+					});
+				new ModelSuggest(this.app, text.inputEl, () => this.discoveredModels?.chat || []);
+			})
+			.addExtraButton(button => button
+				.setIcon("refresh-cw")
+				.setTooltip("Refresh model list from server")
+				.onClick(() => this.refreshDiscoveredModels()));
+		this.addModelStatus(llmModelSetting, () => this.plugin.settings.llmModel);
+
+		new Setting(containerEl)
+			.setName("Test connection")
+			.setDesc("Check that the server answers, the models are installed, chat and streaming work and the embedding model returns vectors")
+			.addButton(button => button
+				.setButtonText("Test connection")
+				.onClick(() => new ConnectionTestModal(this.app, this.plugin.settings).open()));
+
+		new Setting(containerEl)
+			.setName("Model context length")
+			.setDesc(`Context window of the current model in tokens, used to trim conversation history and warn about oversized selections. Leave empty to use what the server reports (or ${DEFAULT_CONTEXT_LENGTH})`)
+			.addText((text) =>
+				text
+					.setPlaceholder("Auto-detect")
+					.setValue(this.plugin.settings.modelContextLengths?.[this.plugin.settings.llmModel]?.toString() || "")
+					.onChange(async (value) => {
+						const lengths = { ...this.plugin.settings.modelContextLengths };
+						const parsedValue = parseInt(value);
+						if (!isNaN(parsedValue) && parsedValue > 0) {
+							lengths[this.plugin.settings.llmModel] = parsedValue;
+						} else {
+							delete lengths[this.plugin.settings.llmModel];
+						}
+						this.plugin.settings.modelContextLengths = lengths;
+						await this.plugin.saveSettings();
+					})
+			)
+			.addExtraButton(button => button
+				.setIcon("scan-search")
+				.setTooltip("Detect from server")
+				.onClick(async () => {
+					const detected = await detectContextLength(this.plugin.settings, true);
+					new Notice(detected
+						? `Server reports a ${detected}-token context for ${this.plugin.settings.llmModel}`
+						: `Server does not report a context length for ${this.plugin.settings.llmModel}; ${DEFAULT_CONTEXT_LENGTH} tokens will be assumed`);
+				}));
+
+		new Setting(containerEl)
+			.setName("Vision model")
+			.setDesc(`Send images embedded in the selection to ${this.plugin.settings.llmModel}. Only enable this for models that accept images, such as llava or gpt-4o`)
+			.addToggle(toggle => toggle
+				.setValue(isVisionModel(this.plugin.settings))
+				.onChange(async (value) => {
+					const model = this.plugin.settings.llmModel;
+					const models = (this.plugin.settings.visionModels || []).filter(name => name !== model);
+					this.plugin.settings.visionModels = value ? [...models, model] : models;
+					await this.plugin.saveSettings();
+				}));
+
+		if (this.plugin.settings.providerType === 'mock') {
+			new Setting(containerEl)
+				.setName("Mock reasoning")
+				.setDesc("Simulate a thinking model: as a separate reasoning field, or inline between <reasoning> markers to test reasoning extraction")
+				.addDropdown(dropdown =>
+					dropdown
+						.addOption('off', 'Off')
+						.addOption('field', 'Reasoning field')
+						.addOption('inline', 'Inline markers')
+						.setValue(this.plugin.settings.mockReasoning || 'off')
+						.onChange(async (value: MockReasoningMode) => {
+							this.plugin.settings.mockReasoning = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Mock streaming delay")
+				.setDesc("Milliseconds between streamed words when streaming is enabled")
+				.addText((text) =>
+					text
+						.setPlaceholder("30")
+						.setValue((this.plugin.settings.mockStreamDelayMs ?? 30).toString())
+						.onChange(async (value) => {
+							const parsedValue = parseInt(value);
+							if (!isNaN(parsedValue) && parsedValue >= 0) {
+								this.plugin.settings.mockStreamDelayMs = parsedValue;
+								await this.plugin.saveSettings();
+							}
+						})
+				);
+		}
+
+		// Native Ollama API options (only sent by the Ollama /api/chat transport)
+		if (this.plugin.settings.providerType === 'ollama') {
+			new Setting(containerEl)
+				.setName("Ollama context length")
+				.setDesc("num_ctx sent with every chat request. 0 keeps the model's default")
+				.addText((text) =>
+					text
+						.setPlaceholder("0")
+						.setValue((this.plugin.settings.ollamaNumCtx || 0).toString())
+						.onChange(async (value) => {
+							const parsedValue = parseInt(value);
+							if (!isNaN(parsedValue) && parsedValue >= 0) {
+								this.plugin.settings.ollamaNumCtx = parsedValue;
+								await this.plugin.saveSettings();
+							}
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Ollama keep alive")
+				.setDesc("How long the model stays loaded after a request (e.g. 5m, 1h, -1). Empty uses the server default")
+				.addText((text) =>
+					text
+						.setPlaceholder("5m")
+						.setValue(this.plugin.settings.ollamaKeepAlive || "")
+						.onChange(async (value) => {
+							this.plugin.settings.ollamaKeepAlive = value.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Ollama output format")
+				.setDesc("Leave empty for free text, use 'json' for JSON mode, or paste a JSON schema")
+				.addTextArea((text) => {
+					text
+						.setPlaceholder("json")
+						.setValue(this.plugin.settings.ollamaFormat || "")
+						.onChange(async (value) => {
+							this.plugin.settings.ollamaFormat = value.trim();
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.rows = 2;
+					return text;
+				});
+
+			new Setting(containerEl)
+				.setName("Ollama thinking")
+				.setDesc("Enable or disable thinking for reasoning models. Server default leaves the model behaviour unchanged")
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("default", "Server default")
+						.addOption("on", "Enabled")
+						.addOption("off", "Disabled")
+						.setValue(this.plugin.settings.ollamaThink === undefined ? "default" : (this.plugin.settings.ollamaThink ? "on" : "off"))
+						.onChange(async (value) => {
+							this.plugin.settings.ollamaThink = value === "default" ? undefined : value === "on";
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		// Provider profiles and the commands that use them
+		this.displayProviderProfiles(containerEl);
 
 		// System Prompts - styled to match custom prompts section
 		const defaultSystemPromptSetting = new Setting(containerEl)
@@ -1743,6 +2235,59 @@ class OLLMSettingTab extends PluginSettingTab {
 					<option value="textassistant">Text Assistant</option>
 				</select>
 			</div>
+			<div class="prompt-input-group">
+				<label class="prompt-field-label">Profile:</label>
+				<select class="custom-prompt-profile-dropdown"></select>
+			</div>
+			<div class="prompt-input-group">
+				<label class="prompt-field-label">Output:</label>
+				<select class="custom-prompt-output-dropdown"></select>
+			</div>
+			<div class="prompt-input-group">
+				<label class="prompt-field-label">Without a Selection:</label>
+				<select class="custom-prompt-scope-dropdown"></select>
+			</div>
+			<div class="prompt-input-group">
+				<label class="prompt-field-label">
+					<input type="checkbox" class="prompt-favorite-checkbox">
+					Favorite (show in the editor context menu)
+				</label>
+			</div>
+			<div class="prompt-input-group">
+				<label class="prompt-field-label">
+					<input type="checkbox" class="prompt-chunked-checkbox">
+					Process long text in chunks (map-reduce)
+				</label>
+			</div>
+			<div class="prompt-input-group" id="prompt-reduce-group" style="display:none;">
+				<label class="prompt-field-label">Reduce Prompt:</label>
+				<textarea class="prompt-reduce-input" placeholder="Combines the per-chunk results (leave empty for the default from settings)..." rows="2"></textarea>
+			</div>
+			<div class="prompt-input-group">
+				<label class="prompt-field-label">
+					<input type="checkbox" class="prompt-structured-checkbox">
+					Structured output (JSON validated against a schema)
+				</label>
+			</div>
+			<div class="prompt-input-group" id="prompt-schema-group" style="display:none;">
+				<label class="prompt-field-label">JSON Schema:</label>
+				<textarea class="prompt-schema-input" placeholder='{"type": "object", "properties": {...}} (leave empty to accept any JSON object)' rows="4"></textarea>
+			</div>
+			<details class="prompt-sampling-group">
+				<summary class="prompt-field-label">Sampling Overrides</summary>
+				<small class="prompt-sampling-hint">Leave a field empty to use the profile or global default. Temperature 0 with a fixed seed gives repeatable edits. Top K, Min P and repeat penalty are not sent to OpenAI-compatible servers when 'Extended sampling parameters' is off.</small>
+				<div class="prompt-sampling-grid">
+					<label>Temperature<input type="number" class="prompt-sampling-input" data-key="temperature" min="0" max="2" step="any"></label>
+					<label>Max tokens<input type="number" class="prompt-sampling-input" data-key="maxTokens" min="1" step="1"></label>
+					<label>Top P<input type="number" class="prompt-sampling-input" data-key="topP" min="0" max="1" step="any"></label>
+					<label>Top K<input type="number" class="prompt-sampling-input" data-key="topK" min="0" step="1"></label>
+					<label>Min P<input type="number" class="prompt-sampling-input" data-key="minP" min="0" max="1" step="any"></label>
+					<label>Repeat penalty<input type="number" class="prompt-sampling-input" data-key="repeatPenalty" min="0" step="any"></label>
+					<label>Seed<input type="number" class="prompt-sampling-input" data-key="seed" step="1"></label>
+				</div>
+				<label class="prompt-field-label">Stop Sequences:</label>
+				<textarea class="prompt-stop-input" placeholder="One stop sequence per line..." rows="2"></textarea>
+			</details>
 			<div class="prompt-input-group" id="custom-system-prompt-group" style="display:none;">
 				<label class="prompt-field-label">Custom System Prompt:</label>
 				<textarea class="prompt-system-input" placeholder="Custom system prompt (overrides persona)..." rows="2"></textarea>
@@ -1764,7 +2309,20 @@ class OLLMSettingTab extends PluginSettingTab {
 		const titleInput = formContainer.querySelector('.prompt-title-input') as HTMLInputElement;
 		const promptInput = formContainer.querySelector('.prompt-text-input') as HTMLTextAreaElement;
 		const customPersonaDropdown = formContainer.querySelector('.custom-prompt-persona-dropdown') as HTMLSelectElement;
+		const customProfileDropdown = formContainer.querySelector('.custom-prompt-profile-dropdown') as HTMLSelectElement;
+		const customOutputDropdown = formContainer.querySelector('.custom-prompt-output-dropdown') as HTMLSelectElement;
 		const systemPromptInput = formContainer.querySelector('.prompt-system-input') as HTMLTextAreaElement;
+		const customScopeDropdown = formContainer.querySelector('.custom-prompt-scope-dropdown') as HTMLSelectElement;
+		const favoriteCheckbox = formContainer.querySelector('.prompt-favorite-checkbox') as HTMLInputElement;
+		const chunkedCheckbox = formContainer.querySelector('.prompt-chunked-checkbox') as HTMLInputElement;
+		const reducePromptGroup = formContainer.querySelector('#prompt-reduce-group') as HTMLDivElement;
+		const reducePromptInput = formContainer.querySelector('.prompt-reduce-input') as HTMLTextAreaElement;
+		const structuredCheckbox = formContainer.querySelector('.prompt-structured-checkbox') as HTMLInputElement;
+		const schemaGroup = formContainer.querySelector('#prompt-schema-group') as HTMLDivElement;
+		const schemaInput = formContainer.querySelector('.prompt-schema-input') as HTMLTextAreaElement;
+		const samplingGroup = formContainer.querySelector('.prompt-sampling-group') as HTMLDetailsElement;
+		const samplingInputs = Array.from(formContainer.querySelectorAll('.prompt-sampling-input')) as HTMLInputElement[];
+		const stopInput = formContainer.querySelector('.prompt-stop-input') as HTMLTextAreaElement;
 		const customSystemPromptGroup = formContainer.querySelector('#custom-system-prompt-group') as HTMLDivElement;
 		const promptInfoGroup = formContainer.querySelector('#prompt-info-group') as HTMLDivElement;
 		const systemInfoDisplay = formContainer.querySelector('.prompt-system-info-display') as HTMLElement;
@@ -1831,10 +2389,105 @@ class OLLMSettingTab extends PluginSettingTab {
 			customPersonaDropdown.add(customOption);
 		};
 
+		// Populate profile dropdown with the main settings entry and saved profiles
+		const populateProfileDropdown = () => {
+			Array.from(customProfileDropdown.options).forEach(option => option.remove());
+			for (const [id, name] of Object.entries(getProfileOptions(this.plugin.settings))) {
+				const option = document.createElement('option');
+				option.value = id;
+				option.text = name;
+				customProfileDropdown.add(option);
+			}
+		};
+
+		// Populate output dropdown with "use settings" and every output mode
+		const populateOutputDropdown = () => {
+			Array.from(customOutputDropdown.options).forEach(option => option.remove());
+			const defaultOption = document.createElement('option');
+			defaultOption.value = '';
+			defaultOption.text = 'Default (from settings)';
+			customOutputDropdown.add(defaultOption);
+			for (const [mode, name] of Object.entries(OUTPUT_MODE_NAMES)) {
+				const option = document.createElement('option');
+				option.value = mode;
+				option.text = name;
+				customOutputDropdown.add(option);
+			}
+		};
+
+		const populateScopeDropdown = () => {
+			Array.from(customScopeDropdown.options).forEach(option => option.remove());
+			const defaultOption = document.createElement('option');
+			defaultOption.value = '';
+			defaultOption.text = 'Default (from settings)';
+			customScopeDropdown.add(defaultOption);
+			for (const [scope, name] of Object.entries(SELECTION_SCOPE_NAMES)) {
+				const option = document.createElement('option');
+				option.value = scope;
+				option.text = name;
+				customScopeDropdown.add(option);
+			}
+		};
+
+		// Sampling overrides: one number input per SamplingOptions key, plus stop sequences
+		const loadSamplingIntoForm = (sampling?: SamplingOptions) => {
+			samplingInputs.forEach(input => {
+				const value = sampling?.[input.dataset.key as Exclude<keyof SamplingOptions, 'stop'>];
+				input.value = value !== undefined ? value.toString() : '';
+			});
+			stopInput.value = (sampling?.stop || []).join('\n');
+			samplingGroup.open = !!sampling;
+		};
+
+		const validateSamplingForm = (): boolean => {
+			const invalidInput = samplingInputs.find(input => !input.checkValidity());
+			if (invalidInput) {
+				new Notice(`Invalid sampling value: ${invalidInput.parentElement?.textContent?.trim()}`);
+				return false;
+			}
+			return true;
+		};
+
+		const readSamplingFromForm = (): SamplingOptions | undefined => {
+			const sampling: SamplingOptions = {};
+			samplingInputs.forEach(input => {
+				if (input.value.trim() !== '') {
+					sampling[input.dataset.key as Exclude<keyof SamplingOptions, 'stop'>] = input.valueAsNumber;
+				}
+			});
+			const stop = stopInput.value.split('\n').filter(sequence => sequence.length > 0);
+			if (stop.length > 0) {
+				sampling.stop = stop;
+			}
+			return Object.keys(sampling).length > 0 ? sampling : undefined;
+		};
+
+		const validateSchemaInput = (): boolean => {
+			if (!structuredCheckbox.checked || !schemaInput.value.trim()) return true;
+			try {
+				JSON.parse(schemaInput.value);
+				return true;
+			} catch (error) {
+				new Notice('JSON Schema is not valid JSON');
+				return false;
+			}
+		};
+
 		// Load prompt data into form fields
 		const loadPromptIntoForm = (prompt: CustomPrompt) => {
 			titleInput.value = prompt.title;
 			promptInput.value = prompt.prompt;
+			customProfileDropdown.value = prompt.profileId || '';
+			customOutputDropdown.value = prompt.outputMode || '';
+			customScopeDropdown.value = prompt.scope || '';
+			favoriteCheckbox.checked = !!prompt.favorite;
+			chunkedCheckbox.checked = !!prompt.chunked;
+			reducePromptInput.value = prompt.reducePrompt || '';
+			reducePromptGroup.style.display = prompt.chunked ? 'flex' : 'none';
+			structuredCheckbox.checked = !!prompt.structured;
+			schemaInput.value = prompt.jsonSchema || '';
+			schemaGroup.style.display = prompt.structured ? 'flex' : 'none';
+			loadSamplingIntoForm(prompt.sampling);
 			selectedPromptId = prompt.id;
 			originalPromptData = { ...prompt };
 
@@ -1879,6 +2532,17 @@ class OLLMSettingTab extends PluginSettingTab {
 			titleInput.value = '';
 			promptInput.value = '';
 			customPersonaDropdown.value = 'default';
+			customProfileDropdown.value = '';
+			customOutputDropdown.value = '';
+			customScopeDropdown.value = '';
+			favoriteCheckbox.checked = false;
+			chunkedCheckbox.checked = false;
+			reducePromptInput.value = '';
+			reducePromptGroup.style.display = 'none';
+			structuredCheckbox.checked = false;
+			schemaInput.value = '';
+			schemaGroup.style.display = 'none';
+			loadSamplingIntoForm(undefined);
 			systemPromptInput.value = '';
 			customSystemPromptGroup.style.display = 'none';
 			promptInfoGroup.style.display = 'none';
@@ -1894,6 +2558,9 @@ class OLLMSettingTab extends PluginSettingTab {
 		// Initialize UI
 		populatePromptDropdown();
 		populatePersonaDropdown();
+		populateProfileDropdown();
+		populateOutputDropdown();
+		populateScopeDropdown();
 		
 		// After populating dropdown, load the first prompt if available
 		if (this.plugin.settings.customPrompts && this.plugin.settings.customPrompts.length > 0) {
@@ -1938,6 +2605,14 @@ class OLLMSettingTab extends PluginSettingTab {
 			}
 		});
 
+		chunkedCheckbox.addEventListener('change', () => {
+			reducePromptGroup.style.display = chunkedCheckbox.checked ? 'flex' : 'none';
+		});
+
+		structuredCheckbox.addEventListener('change', () => {
+			schemaGroup.style.display = structuredCheckbox.checked ? 'flex' : 'none';
+		});
+
 		// Event listener for persona dropdown change
 		customPersonaDropdown.addEventListener('change', () => {
 			if (customPersonaDropdown.value === 'custom') {
@@ -2008,6 +2683,9 @@ class OLLMSettingTab extends PluginSettingTab {
 				new Notice('Please fill in both title and prompt');
 				return false;
 			}
+			if (!validateSamplingForm() || !validateSchemaInput()) {
+				return false;
+			}
 
 			let systemPrompt: string | undefined;
 			if (customPersonaDropdown.value === 'custom') {
@@ -2021,6 +2699,15 @@ class OLLMSettingTab extends PluginSettingTab {
 			prompt.title = title;
 			prompt.prompt = promptText;
 			prompt.systemPrompt = systemPrompt;
+			prompt.profileId = customProfileDropdown.value || undefined;
+			prompt.outputMode = (customOutputDropdown.value as OutputMode) || undefined;
+			prompt.scope = (customScopeDropdown.value as SelectionScope) || undefined;
+			prompt.favorite = favoriteCheckbox.checked || undefined;
+			prompt.chunked = chunkedCheckbox.checked || undefined;
+			prompt.reducePrompt = reducePromptInput.value.trim() || undefined;
+			prompt.structured = structuredCheckbox.checked || undefined;
+			prompt.jsonSchema = schemaInput.value.trim() || undefined;
+			prompt.sampling = readSamplingFromForm();
 			prompt.updatedAt = Date.now();
 
 			await this.plugin.saveSettings();
@@ -2046,6 +2733,9 @@ class OLLMSettingTab extends PluginSettingTab {
 				new Notice('Please fill in both title and prompt');
 				return;
 			}
+			if (!validateSamplingForm() || !validateSchemaInput()) {
+				return;
+			}
 
 			let systemPrompt: string | undefined;
 			if (customPersonaDropdown.value === 'custom') {
@@ -2061,6 +2751,15 @@ class OLLMSettingTab extends PluginSettingTab {
 				title: title,
 				prompt: promptText,
 				systemPrompt: systemPrompt,
+				profileId: customProfileDropdown.value || undefined,
+				outputMode: (customOutputDropdown.value as OutputMode) || undefined,
+				scope: (customScopeDropdown.value as SelectionScope) || undefined,
+				favorite: favoriteCheckbox.checked || undefined,
+				chunked: chunkedCheckbox.checked || undefined,
+				reducePrompt: reducePromptInput.value.trim() || undefined,
+				structured: structuredCheckbox.checked || undefined,
+				jsonSchema: schemaInput.value.trim() || undefined,
+				sampling: readSamplingFromForm(),
 				createdAt: Date.now(),
 				updatedAt: Date.now()
 			};
@@ -2141,17 +2840,205 @@ class OLLMSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Response Cache")
+			.setDesc("Reuse the answer when the same prompt runs on the same text with the same model and settings. Use 'Regenerate last response (bypass cache)' to ask the model again")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.responseCacheEnabled || false)
+					.onChange(async (value) => {
+						this.plugin.settings.responseCacheEnabled = value;
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.responseCacheEnabled) {
+			new Setting(containerEl)
+				.setName("Cache Lifetime (hours)")
+				.setDesc("Cached answers older than this are not reused. 0 keeps them until the size limit is reached")
+				.addText((text) =>
+					text
+						.setPlaceholder("24")
+						.setValue((this.plugin.settings.responseCacheTTLHours ?? 24).toString())
+						.onChange(async (value) => {
+							const parsedValue = parseFloat(value);
+							if (!isNaN(parsedValue) && parsedValue >= 0) {
+								this.plugin.settings.responseCacheTTLHours = parsedValue;
+								await this.plugin.saveSettings();
+							}
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Cache Size Limit (MB)")
+				.setDesc("The oldest answers are removed when the cache grows beyond this")
+				.addText((text) =>
+					text
+						.setPlaceholder("10")
+						.setValue((this.plugin.settings.responseCacheMaxSizeMB ?? 10).toString())
+						.onChange(async (value) => {
+							const parsedValue = parseFloat(value);
+							if (!isNaN(parsedValue) && parsedValue > 0) {
+								this.plugin.settings.responseCacheMaxSizeMB = parsedValue;
+								await this.plugin.saveSettings();
+							}
+						})
+				);
+		}
+
+		const clearCacheSetting = new Setting(containerEl)
+			.setName("Clear Response Cache")
+			.setDesc("Delete all cached answers")
+			.addButton(button => button
+				.setButtonText("Clear cache")
+				.onClick(async () => {
+					await this.plugin.responseCache.clear();
+					clearCacheSetting.setDesc("Delete all cached answers (cache is empty)");
+					new Notice("Response cache cleared");
+				}));
+		this.plugin.responseCache.stats().then(stats => {
+			clearCacheSetting.setDesc(`Delete all cached answers (${stats.entries} cached, ${(stats.bytes / 1024 / 1024).toFixed(1)} MB)`);
+		});
+
 		new Setting(containerEl)
 			.setName("Output Mode")
-			.setDesc("Choose how to handle generated text")
-			.addDropdown((dropdown) =>
+			.setDesc("Choose how to handle generated text. Custom prompts can override this")
+			.addDropdown((dropdown) => {
+				for (const [mode, name] of Object.entries(OUTPUT_MODE_NAMES)) {
+					dropdown.addOption(mode, name);
+				}
 				dropdown
-					.addOption("replace", "Replace selected text")
-					.addOption("append", "Append after selected text")
 					.setValue(this.plugin.settings.outputMode)
 					.onChange(async (value) => {
 						this.plugin.settings.outputMode = value;
 						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Callout Type")
+			.setDesc("Callout used by the callout output mode, e.g. note, tip, abstract or quote. Add - (note-) to fold it")
+			.addText((text) =>
+				text
+					.setPlaceholder("note")
+					.setValue(this.plugin.settings.calloutType || "")
+					.onChange(async (value) => {
+						this.plugin.settings.calloutType = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Callout Title")
+			.setDesc("{title} is replaced with the prompt title. Leave empty for the callout type's default title")
+			.addText((text) =>
+				text
+					.setPlaceholder("{title}")
+					.setValue(this.plugin.settings.calloutTitle ?? "{title}")
+					.onChange(async (value) => {
+						this.plugin.settings.calloutTitle = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("New Note Folder")
+			.setDesc("Folder for the new note output mode. Leave empty to create the note next to the source note")
+			.addText((text) =>
+				text
+					.setPlaceholder("LLM Responses")
+					.setValue(this.plugin.settings.outputNoteFolder || "")
+					.onChange(async (value) => {
+						this.plugin.settings.outputNoteFolder = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Without a Selection")
+			.setDesc("What commands work on when nothing is selected. The text is highlighted briefly and the answer replaces or follows it like a selection. Custom prompts can choose their own")
+			.addDropdown((dropdown) => {
+				for (const [scope, name] of Object.entries(SELECTION_SCOPE_NAMES)) {
+					dropdown.addOption(scope, name);
+				}
+				dropdown
+					.setValue(this.plugin.settings.defaultSelectionScope || "paragraph")
+					.onChange(async (value) => {
+						this.plugin.settings.defaultSelectionScope = value as SelectionScope;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		const scopeCommands: { id: string; name: string }[] = [
+			{ id: "gentext-selected-text", name: "Without a selection: use as prompt" },
+			{ id: "web-search-selected-text", name: "Without a selection: web search" },
+			{ id: "web-news-search", name: "Without a selection: news search" },
+		];
+		for (const command of scopeCommands) {
+			new Setting(containerEl)
+				.setName(command.name)
+				.addDropdown((dropdown) => {
+					dropdown.addOption("", "Default");
+					for (const [scope, name] of Object.entries(SELECTION_SCOPE_NAMES)) {
+						dropdown.addOption(scope, name);
+					}
+					dropdown
+						.setValue(this.plugin.settings.selectionScopes?.[command.id] || "")
+						.onChange(async (value) => {
+							const scopes = { ...this.plugin.settings.selectionScopes };
+							if (value) {
+								scopes[command.id] = value as SelectionScope;
+							} else {
+								delete scopes[command.id];
+							}
+							this.plugin.settings.selectionScopes = scopes;
+							await this.plugin.saveSettings();
+						});
+				});
+		}
+
+		new Setting(containerEl)
+			.setName("Inline Continuation")
+			.setDesc("After a pause in typing, show a suggested continuation as dimmed text at the cursor. Tab accepts it, Esc dismisses it. The 'Continue at cursor' command works without this. Uses the persona and the inline continuation profile")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.continuationEnabled || false)
+					.onChange(async (value) => {
+						this.plugin.settings.continuationEnabled = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Continuation Delay (ms)")
+			.setDesc("How long to wait after the last keystroke before asking for a continuation")
+			.addText((text) =>
+				text
+					.setPlaceholder("800")
+					.setValue((this.plugin.settings.continuationDelayMs ?? 800).toString())
+					.onChange(async (value) => {
+						const parsedValue = parseInt(value);
+						if (!isNaN(parsedValue) && parsedValue >= 0) {
+							this.plugin.settings.continuationDelayMs = parsedValue;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Continuation Length (tokens)")
+			.setDesc("Maximum length of one suggestion")
+			.addText((text) =>
+				text
+					.setPlaceholder("64")
+					.setValue((this.plugin.settings.continuationMaxTokens ?? 64).toString())
+					.onChange(async (value) => {
+						const parsedValue = parseInt(value);
+						if (!isNaN(parsedValue) && parsedValue > 0) {
+							this.plugin.settings.continuationMaxTokens = parsedValue;
+							await this.plugin.saveSettings();
+						}
 					})
 			);
 
@@ -2169,6 +3056,19 @@ class OLLMSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Chunked Mode Reduce Prompt")
+			.setDesc("Used when text is processed in chunks: combines the per-chunk results into one answer. Custom prompts can override it")
+			.addTextArea((text) =>
+				text
+					.setPlaceholder(DEFAULT_REDUCE_PROMPT)
+					.setValue(this.plugin.settings.defaultReducePrompt || DEFAULT_REDUCE_PROMPT)
+					.onChange(async (value) => {
+						this.plugin.settings.defaultReducePrompt = value.trim() || DEFAULT_REDUCE_PROMPT;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Max Tokens")
 			.setDesc("Max number of tokens for LLM response (generally 1-4000)")
@@ -2217,6 +3117,52 @@ class OLLMSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Chat tools")
+			.setDesc("Let the chat search and read your notes, list notes by tag, search the web, and create or append to notes after you confirm. Needs a model with tool calling support")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.chatToolsEnabled !== false)
+					.onChange(async (value) => {
+						this.plugin.settings.chatToolsEnabled = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Concurrent generations")
+			.setDesc("How many LLM jobs may run at once. Further prompts, tagging and indexing wait in the queue (see the LLM jobs panel)")
+			.addText((text) =>
+				text
+					.setPlaceholder("1")
+					.setValue((this.plugin.settings.maxConcurrentJobs || 1).toString())
+					.onChange(async (value) => {
+						const parsedValue = parseInt(value);
+						if (!isNaN(parsedValue) && parsedValue >= 1) {
+							this.plugin.settings.maxConcurrentJobs = parsedValue;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		(Object.keys(JOB_KIND_NAMES) as JobKind[]).forEach((kind) => {
+			new Setting(containerEl)
+				.setName(`Queue priority: ${JOB_KIND_NAMES[kind]}`)
+				.setDesc("Higher priority jobs start first when the queue is full")
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOptions(JOB_PRIORITY_NAMES)
+						.setValue(this.plugin.settings.jobPriorities?.[kind] || DEFAULT_JOB_PRIORITIES[kind])
+						.onChange(async (value) => {
+							this.plugin.settings.jobPriorities = {
+								...this.plugin.settings.jobPriorities,
+								[kind]: value as JobPriority,
+							};
+							await this.plugin.saveSettings();
+						})
+				);
+		});
+
 
 
 		//new settings for response formatting boolean default false
@@ -2299,19 +3245,94 @@ class OLLMSettingTab extends PluginSettingTab {
 				});
 		}
 
-		new Setting(containerEl)
+		const embeddingModelSetting = new Setting(containerEl)
 			.setName("Embedding Model Name")
 			.setDesc("Model for text embeddings. For Ollama: mxbai-embed-large, nomic-embed-text, all-minilm. Install with 'ollama pull <model>'")
-			.addText((text) =>
+			.addText((text) => {
 				text
 					.setPlaceholder("mxbai-embed-large")
 					.setValue(this.plugin.settings.embeddingModelName)
 					.onChange(async (value) => {
 						this.plugin.settings.embeddingModelName = value;
 						await this.plugin.saveSettings();
+						this.renderModelStatuses();
+					});
+				new ModelSuggest(this.app, text.inputEl, () => this.discoveredModels?.embedding || []);
+			})
+			.addExtraButton(button => button
+				.setIcon("refresh-cw")
+				.setTooltip("Refresh model list from server")
+				.onClick(() => this.refreshDiscoveredModels()));
+		this.addModelStatus(embeddingModelSetting, () => this.plugin.settings.embeddingModelName);
+
+		new Setting(containerEl)
+			.setName("Transcription Server Address")
+			.setDesc("OpenAI-compatible endpoint for the 'Transcribe audio note' command, e.g. faster-whisper or a whisper.cpp server started with --inference-path /v1/audio/transcriptions. /audio/transcriptions is appended. Leave empty to use the LLM server address")
+			.addText((text) =>
+				text
+					.setPlaceholder("http://localhost:8080/v1")
+					.setValue(this.plugin.settings.transcriptionServerAddress || "")
+					.onChange(async (value) => {
+						this.plugin.settings.transcriptionServerAddress = value.trim() ? normalizeServerAddress(value) : "";
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Transcription API Key")
+			.setDesc("Sent as a bearer token to the transcription server. Leave empty to send no key, or the LLM server's key and extra headers when both addresses are the same")
+			.addText((text) =>
+				text
+					.setPlaceholder("Enter your API key")
+					.setValue(this.plugin.settings.transcriptionApiKey || "")
+					.onChange(async (value) => {
+						this.plugin.settings.transcriptionApiKey = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Transcription Model")
+			.setDesc("Speech-to-text model name. whisper.cpp ignores it, faster-whisper servers expect e.g. Systran/faster-whisper-small")
+			.addText((text) =>
+				text
+					.setPlaceholder("whisper-1")
+					.setValue(this.plugin.settings.transcriptionModel || "")
+					.onChange(async (value) => {
+						this.plugin.settings.transcriptionModel = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Transcription Language")
+			.setDesc("Two-letter language code of the recordings, e.g. en or de. Leave empty to auto-detect")
+			.addText((text) =>
+				text
+					.setPlaceholder("Auto-detect")
+					.setValue(this.plugin.settings.transcriptionLanguage || "")
+					.onChange(async (value) => {
+						this.plugin.settings.transcriptionLanguage = value.trim().toLowerCase();
+						await this.plugin.saveSettings();
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Prompt After Transcription")
+			.setDesc("Custom prompt to run on each new transcript, e.g. Generate Action Items")
+			.addDropdown(dropdown => {
+				dropdown.addOption("", "None");
+				for (const prompt of this.plugin.settings.customPrompts || []) {
+					dropdown.addOption(prompt.id, prompt.title);
+				}
+				dropdown
+					.setValue(this.plugin.settings.transcriptionPromptId || "")
+					.onChange(async (value) => {
+						this.plugin.settings.transcriptionPromptId = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
 		// Search Engine Settings
 		const searchEngineSetting = new Setting(containerEl)
 			.setName("Search Engine")
@@ -2425,12 +3446,36 @@ class OLLMSettingTab extends PluginSettingTab {
 					.setPlaceholder("Enter your API key")
 					.setValue(this.plugin.settings.openAIApiKey || '')
 					.onChange(async (value) => {
-						this.plugin.settings.openAIApiKey = value;
+						this.plugin.settings.openAIApiKey = value;
+						await this.plugin.saveSettings();
+					})
+				);
+
+			new Setting(containerEl)
+				.setName("Extended sampling parameters")
+				.setDesc("Send the Top K, Min P and repeat penalty overrides of custom prompts. LM Studio, llama.cpp and vLLM understand them; turn this off for hosted APIs that reject unknown parameters. Never sent to api.openai.com")
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.openAIExtendedSampling !== false)
+					.onChange(async (value) => {
+						this.plugin.settings.openAIExtendedSampling = value;
 						await this.plugin.saveSettings();
 					})
 				);
 		}
 
+		new Setting(containerEl)
+			.setName("Extra Request Headers")
+			.setDesc("Sent with every request to the LLM server (chat, tagging, RAG, embeddings), one 'Name: value' per line. An Authorization header here replaces the API key, e.g. for proxies in front of Ollama")
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("Authorization: Bearer <token>\nX-Team: notes")
+					.setValue(this.plugin.settings.extraHeaders || '')
+					.onChange(async (value) => {
+						this.plugin.settings.extraHeaders = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Index Notes (BETA)")
 			.setDesc("Manually index all notes in the vault")
@@ -2450,17 +3495,21 @@ class OLLMSettingTab extends PluginSettingTab {
 					let processedFiles = 0;
 
 					try {
-						await this.plugin.ragManager.indexNotes((progress) => {
+						await this.plugin.jobs.run("Index notes", (signal) => this.plugin.ragManager.indexNotes((progress) => {
 							if (this.indexingProgressBar) {
 								this.indexingProgressBar.value = progress * 100;
 							}
 							processedFiles = Math.floor(progress * totalFiles);
 							counterEl.textContent = `   Processing: ${processedFiles}/${totalFiles}`;
 							counterEl.style.fontSize = 'smaller';
-						});
+						}, signal), { kind: "indexing", retry: () => this.plugin.indexNotes() });
 						new Notice("Indexing complete!");
 						this.updateIndexedFilesCount();
 					} catch (error) {
+						if (isAbortError(error)) {
+							new Notice("Indexing cancelled");
+							return;
+						}
 						console.error("Indexing error:", error);
 						new Notice("Error during indexing. Check console for details.");
 					} finally {
@@ -2537,6 +3586,292 @@ class OLLMSettingTab extends PluginSettingTab {
 		setTimeout(checkAndUpdate, 50);
 	}
 
+	// Models reported by the server, loaded lazily and refreshed on demand
+	private discoveredModels: DiscoveredModels | null = null;
+	private modelDiscoveryError: string | null = null;
+	private isDiscoveringModels = false;
+	private discoveryRequest = 0; // Answers to older requests are ignored
+	private discoveryTimer: number | null = null;
+	// Status lines under the model fields, updated in place when the model list changes
+	private modelStatuses: { el: HTMLElement; model: () => string }[] = [];
+
+	/* Contract: Reload the server's model list --> Query the configured provider and remember models or the error --> Update the status lines under the model fields; the suggesters read the list when opened */
+	private async refreshDiscoveredModels() {
+		const request = ++this.discoveryRequest;
+		this.isDiscoveringModels = true;
+		this.renderModelStatuses();
+		let models: DiscoveredModels | null = null;
+		let error: string | null = null;
+		try {
+			models = await discoverModels(this.plugin.settings);
+		} catch (e) {
+			console.error("Error discovering models:", e);
+			error = e.message || "Unknown error";
+		}
+		// The provider or server changed while this request was running
+		if (request !== this.discoveryRequest) return;
+		this.discoveredModels = models;
+		this.modelDiscoveryError = error;
+		this.isDiscoveringModels = false;
+		this.renderModelStatuses();
+	}
+
+	private clearDiscoveredModels() {
+		this.discoveryRequest++;
+		this.discoveredModels = null;
+		this.modelDiscoveryError = null;
+		this.isDiscoveringModels = false;
+	}
+
+	private scheduleModelDiscovery() {
+		if (this.discoveryTimer !== null) {
+			window.clearTimeout(this.discoveryTimer);
+		}
+		this.discoveryTimer = window.setTimeout(() => {
+			this.discoveryTimer = null;
+			this.refreshDiscoveredModels();
+		}, 1000);
+	}
+
+	private addModelStatus(setting: Setting, model: () => string) {
+		const el = setting.descEl.createDiv();
+		this.modelStatuses.push({ el, model });
+		this.renderModelStatus(el, model());
+	}
+
+	private renderModelStatuses() {
+		for (const status of this.modelStatuses) {
+			this.renderModelStatus(status.el, status.model());
+		}
+	}
+
+	// Show loading state, discovery errors, or a warning when the saved model is not installed
+	private renderModelStatus(el: HTMLElement, model: string) {
+		el.empty();
+		el.className = "llm-model-status";
+		if (this.isDiscoveringModels) {
+			el.setText("Loading models from server...");
+		} else if (this.modelDiscoveryError) {
+			el.setText(`Could not load models: ${this.modelDiscoveryError}`);
+			el.addClass("llm-model-warning");
+		} else if (this.discoveredModels && model) {
+			const allModels = [...this.discoveredModels.chat, ...this.discoveredModels.embedding];
+			if (!isModelAvailable(model, allModels)) {
+				el.setText(`⚠️ "${model}" was not found on the server`);
+				el.addClass("llm-model-warning");
+			}
+		}
+	}
+
+	// Profile currently shown in the profile editor
+	private selectedProfileId: string | null = null;
+
+	/* Contract: Render provider profile management --> Show profile picker, add/delete buttons, the selected profile's fields and per-command profile choices --> Let users switch models per task without editing main settings */
+	private displayProviderProfiles(containerEl: HTMLElement) {
+		const profiles = this.plugin.settings.providerProfiles || [];
+		if (!profiles.some(p => p.id === this.selectedProfileId)) {
+			this.selectedProfileId = profiles.length > 0 ? profiles[0].id : null;
+		}
+
+		const profilesSetting = new Setting(containerEl)
+			.setName("Provider Profiles")
+			.setDesc("Named endpoint/model combinations. Custom prompts, tagging, chat, RAG and web search can each use a different profile");
+
+		if (profiles.length > 0) {
+			profilesSetting.addDropdown((dropdown) => {
+				profiles.forEach(p => dropdown.addOption(p.id, p.name));
+				dropdown
+					.setValue(this.selectedProfileId || profiles[0].id)
+					.onChange((value) => {
+						this.selectedProfileId = value;
+						this.display();
+					});
+			});
+		}
+
+		profilesSetting.addButton(button => button
+			.setButtonText("Add profile")
+			.onClick(async () => {
+				const profile = createProfileFromSettings(this.plugin.settings, `Profile ${profiles.length + 1}`);
+				this.plugin.settings.providerProfiles = [...profiles, profile];
+				this.selectedProfileId = profile.id;
+				await this.plugin.saveSettings();
+				this.display();
+			}));
+
+		const profile = profiles.find(p => p.id === this.selectedProfileId);
+		if (profile) {
+			profilesSetting.addButton(button => button
+				.setButtonText("Delete profile")
+				.setWarning()
+				.onClick(async () => {
+					if (!confirm(`Are you sure you want to delete the profile "${profile.name}"? Commands using it will fall back to the main settings.`)) {
+						return;
+					}
+					const settings = this.plugin.settings;
+					settings.providerProfiles = profiles.filter(p => p.id !== profile.id);
+					// Point everything that used this profile back to the main settings
+					for (const key of ['taggerProfileId', 'chatProfileId', 'ragProfileId', 'webSearchProfileId', 'continuationProfileId'] as const) {
+						if (settings[key] === profile.id) {
+							settings[key] = undefined;
+						}
+					}
+					(settings.customPrompts || []).forEach(p => {
+						if (p.profileId === profile.id) {
+							p.profileId = undefined;
+						}
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+			new Setting(containerEl)
+				.setName("Profile name")
+				.addText((text) =>
+					text
+						.setValue(profile.name)
+						.onChange((value) => {
+							profile.name = value.trim() || profile.name;
+							this.debouncedSave();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Profile provider")
+				.addDropdown(dropdown =>
+					dropdown
+						.addOption('ollama', 'Ollama')
+						.addOption('openai', 'OpenAI/LM Studio')
+						.addOption('mock', 'Mock (offline echo)')
+						.setValue(profile.providerType)
+						.onChange(async (value) => {
+							profile.providerType = value;
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Profile server URL")
+				.addText((text) =>
+					text
+						.setPlaceholder("http://localhost:11434/v1")
+						.setValue(profile.serverAddress)
+						.onChange((value) => {
+							profile.serverAddress = normalizeServerAddress(value);
+							this.debouncedSave();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Profile model")
+				.addText((text) =>
+					text
+						.setPlaceholder("Model name")
+						.setValue(profile.llmModel)
+						.onChange((value) => {
+							profile.llmModel = value.trim();
+							this.debouncedSave();
+						})
+				);
+
+			if (profile.providerType === 'openai') {
+				new Setting(containerEl)
+					.setName("Profile API key")
+					.setDesc("Leave empty to use the main OpenAI API key when the profile uses the main server address, or no key otherwise")
+					.addText((text) =>
+						text
+							.setPlaceholder("Enter your API key")
+							.setValue(profile.openAIApiKey || '')
+							.onChange((value) => {
+								profile.openAIApiKey = value.trim() || undefined;
+								this.debouncedSave();
+							})
+					);
+			}
+
+			new Setting(containerEl)
+				.setName("Profile extra headers")
+				.setDesc("One 'Name: value' per line. Leave empty to use the main extra headers when the profile uses the main server address, or none otherwise")
+				.addTextArea((text) =>
+					text
+						.setPlaceholder("Authorization: Bearer <token>")
+						.setValue(profile.extraHeaders || '')
+						.onChange((value) => {
+							profile.extraHeaders = value.trim() || undefined;
+							this.debouncedSave();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Profile temperature")
+				.setDesc("Leave empty to use the global temperature")
+				.addText((text) =>
+					text
+						.setPlaceholder(this.plugin.settings.temperature.toString())
+						.setValue(profile.temperature !== undefined ? profile.temperature.toString() : '')
+						.onChange((value) => {
+							const parsedValue = parseFloat(value);
+							if (value.trim() === '') {
+								profile.temperature = undefined;
+							} else if (!isNaN(parsedValue) && parsedValue >= 0 && parsedValue <= 2) {
+								profile.temperature = parsedValue;
+							} else {
+								return;
+							}
+							this.debouncedSave();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Profile max tokens")
+				.setDesc("Leave empty to use the global max tokens")
+				.addText((text) =>
+					text
+						.setPlaceholder(this.plugin.settings.maxTokens.toString())
+						.setValue(profile.maxTokens !== undefined ? profile.maxTokens.toString() : '')
+						.onChange((value) => {
+							const parsedValue = parseInt(value);
+							if (value.trim() === '') {
+								profile.maxTokens = undefined;
+							} else if (!isNaN(parsedValue) && parsedValue >= 0) {
+								profile.maxTokens = parsedValue;
+							} else {
+								return;
+							}
+							this.debouncedSave();
+						})
+				);
+		}
+
+		if (profiles.length === 0) {
+			return;
+		}
+
+		// Per-command profile selection
+		const profileUsages: { key: 'taggerProfileId' | 'chatProfileId' | 'ragProfileId' | 'webSearchProfileId' | 'continuationProfileId'; name: string }[] = [
+			{ key: 'taggerProfileId', name: "Profile for tagging" },
+			{ key: 'chatProfileId', name: "Profile for chat" },
+			{ key: 'ragProfileId', name: "Profile for RAG chat" },
+			{ key: 'webSearchProfileId', name: "Profile for web search summaries" },
+			{ key: 'continuationProfileId', name: "Profile for inline continuation" },
+		];
+		const profileOptions = getProfileOptions(this.plugin.settings);
+		for (const usage of profileUsages) {
+			new Setting(containerEl)
+				.setName(usage.name)
+				.addDropdown((dropdown) => {
+					dropdown.addOptions(profileOptions);
+					dropdown
+						.setValue(this.plugin.settings[usage.key] || '')
+						.onChange(async (value) => {
+							this.plugin.settings[usage.key] = value || undefined;
+							await this.plugin.saveSettings();
+						});
+				});
+		}
+	}
+
 	// Helper method to get the prompt for a specific persona
 	getPersonaPrompt(persona: string): string | null {
 		// First check if it's a custom persona from the personasDict
@@ -2596,20 +3931,10 @@ export function modifyPrompt(aprompt: string, personas: string): string {
 async function processText(
 	selectedText: string,
 	iprompt: string,
-	plugin: OLocalLLMPlugin
+	plugin: OLocalLLMPlugin,
+	profileId?: string,
+	readingSelection?: ReadingSelection
 ) {
-	// Reset kill switch state at the beginning of each process
-	plugin.isKillSwitchActive = false;
-
-	new Notice("Generating response. This takes a few seconds..");
-	const statusBarItemEl = document.querySelector(
-		".status-bar .status-bar-item"
-	);
-	if (statusBarItemEl) {
-		statusBarItemEl.textContent = "LLM Helper: Generating response...";
-	} else {
-		console.error("Status bar item element not found");
-	}
 
 	let prompt = modifyPrompt(iprompt, plugin.settings.personas);
 
@@ -2645,273 +3970,274 @@ async function processText(
 
 	console.log("system message", systemMessage);
 
-	const body = {
-		model: plugin.settings.llmModel,
-		messages: [
-			{ role: "system", content: systemMessage },
-			...plugin.conversationHistory.slice(-plugin.settings.maxConvHistory).reduce((acc, entry) => {
-				acc.push({ role: "user", content: entry.prompt });
-				acc.push({ role: "assistant", content: entry.response });
-				return acc;
-			}, [] as { role: string; content: string }[]),
-			{ role: "user", content: userMessageContent },
-		],
-		temperature: plugin.settings.temperature,
-		max_tokens: plugin.settings.maxTokens,
-		stream: plugin.settings.stream,
-	};
+	const messages = buildChatMessages(
+		systemMessage,
+		plugin.conversationHistory,
+		plugin.settings.maxConvHistory,
+		userMessageContent
+	);
 
-	try {
-		if (plugin.settings.outputMode === "append") {
-			modifySelectedText(selectedText + "\n\n", plugin.app);
+	await generateIntoEditor(
+		plugin,
+		iprompt.length > 40 ? iprompt.slice(0, 40) + "..." : iprompt,
+		messages,
+		prompt + ": " + selectedText,
+		selectedText,
+		"Error generating text: Check plugin console for more details!",
+		{
+			profileId,
+			chunkedMessages: createMapReducePreparer(plugin, systemMessage, prompt, selectedText),
+			readingSelection,
 		}
-		if (plugin.settings.responseFormatting === true) {
-			modifySelectedText(plugin.settings.responseFormatPrepend, plugin.app);
-		}
-		if (plugin.settings.stream) {
-			const response = await fetch(
-				`${plugin.settings.serverAddress}/chat/completions`,
-				{
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify(body),
-				}
-			);
+	);
+}
 
-			if (!response.ok) {
-				throw new Error(
-					"Error summarizing text (Fetch): " + response.statusText
-				);
-			}
+// <APPLY_CONTEXT_BUDGET_START>
+/* Contract: Check a request against the model's context window --> Resolve the context length, drop old history, ask the user when the prompt alone is too large --> Return the messages to send, "chunk" to switch to chunked processing, or null when the user cancels */
+async function applyContextBudget(app: App, llmSettings: OLocalLLMSettings, messages: ChatMessage[], allowChunking = false): Promise<ChatMessage[] | "chunk" | null> {
+	const contextLength = await resolveContextLength(llmSettings);
+	const budget = fitMessagesToContext(messages, contextLength, llmSettings.maxTokens);
 
-			const reader = response.body && response.body.getReader();
-			let responseStr = "";
-			if (!reader) {
-				console.error("Reader not found");
-				throw new Error("Response reader not available for streaming");
-			} else {
-				const decoder = new TextDecoder();
-
-				try {
-					while (true) {
-						if (plugin.isKillSwitchActive) {
-							await reader.cancel();
-							new Notice("Text generation stopped by kill switch");
-							plugin.isKillSwitchActive = false; // Reset the kill switch
-							break;
-						}
+	if (budget.droppedExchanges > 0) {
+		new Notice(`Left out ${budget.droppedExchanges} earlier exchange(s) to fit the ${contextLength}-token context`);
+	}
+	if (budget.fits) {
+		return budget.messages;
+	}
 
-						const { done, value } = await reader.read();
+	const choice = await confirmContextOverflow(app, budget, allowChunking);
+	if (choice === "chunk") return "chunk";
+	return choice === "send" ? budget.messages : null;
+}
+// <APPLY_CONTEXT_BUDGET_END>
 
-						if (done) {
-							new Notice("Text generation complete. Voila!");
-							updateConversationHistory(prompt + ": " + selectedText, responseStr, plugin.conversationHistory, plugin.settings.maxConvHistory);
-							if (plugin.settings.responseFormatting === true) {
-								modifySelectedText(plugin.settings.responseFormatAppend, plugin.app);
-							}
-							break;
-						}
+// <MAP_REDUCE_PREPARER_START>
+// Builds the final request inside the running job, e.g. after map-reduce over chunks
+type MessagePreparer = (client: LLMClient, llmSettings: OLocalLLMSettings, signal: AbortSignal, job: LLMJob) => Promise<ChatMessage[]>;
 
-						let textChunk = decoder.decode(value);
-						const lines = textChunk.split("\n");
-
-						for (const line of lines) {
-							if (line.trim()) {
-								try {
-									let modifiedLine = line.replace(
-										/^data:\s*/,
-										""
-									);
-									if (modifiedLine !== "[DONE]") {
-										const data = JSON.parse(modifiedLine);
-										if (data.choices[0].delta.content) {
-											let word =
-												data.choices[0].delta.content;
-											modifySelectedText(word, plugin.app);
-											responseStr += word;
-										}
-									}
-								} catch (error) {
-									console.error(
-										"Error parsing JSON chunk:",
-										error
-									);
-								}
-							}
-						}
-					}
-				} finally {
-					reader.releaseLock();
-				}
-			}
-		} else {
-			const response = await requestUrl({
-				url: `${plugin.settings.serverAddress}/chat/completions`,
-				method: "POST",
-				headers: { "Content-Type": "application/json" },
-				body: JSON.stringify(body),
-			});
+/* Contract: Prepare chunked processing of a selection --> Run the prompt over markdown chunks and reduce the partial results, reporting progress on the job --> Return a MessagePreparer yielding the final reduce request */
+function createMapReducePreparer(
+	plugin: OLocalLLMPlugin,
+	systemMessage: string,
+	prompt: string,
+	selectedText: string,
+	reducePrompt?: string
+): MessagePreparer {
+	const pattern = plugin.settings.promptConcatenationPattern || "{prompt}: {selection}";
+	return async (client, llmSettings, signal, job) => {
+		const messages = await runMapReduce(client, {
+			systemPrompt: systemMessage,
+			instruction: prompt,
+			text: selectedText,
+			buildUserMessage: (chunk) => pattern.replace("{prompt}", () => prompt).replace("{selection}", () => chunk),
+			reducePrompt: reducePrompt || plugin.settings.defaultReducePrompt || DEFAULT_REDUCE_PROMPT,
+			contextLength: await resolveContextLength(llmSettings),
+			maxOutputTokens: llmSettings.maxTokens,
+			signal,
+			cleanup: (text) => extractActualResponse(text, plugin.settings),
+			onProgress: (progress) => plugin.jobs.setProgress(job, progress),
+		});
+		plugin.jobs.setProgress(job, undefined);
+		return messages;
+	};
+}
+// <MAP_REDUCE_PREPARER_END>
+
+// <GENERATE_INTO_EDITOR_START>
+interface GenerateOptions {
+	profileId?: string;                // Provider profile, main settings when unset
+	chunkedMessages?: MessagePreparer; // Offered when the text does not fit the context window
+	sampling?: SamplingOptions;        // Custom prompt overrides
+	jsonSchema?: JSONSchema;           // Structured output: validated JSON inserted as a code block, never streamed
+	keyMessages?: ChatMessage[];       // Response cache key when messages is a preparer
+	bypassCache?: boolean;             // Ask the model even when a cached answer exists
+	outputMode?: OutputMode;           // Custom prompt destination, settings.outputMode when unset
+	readingSelection?: ReadingSelection; // Write into this part of the file instead of the editor
+}
 
-			const statusCode = response.status;
+/* Contract: Run a chat request and deliver the answer --> Pick the output mode's writer, stream tokens into it or hand it the buffered answer, record conversation history --> Shared by processText and processCustomPromptText */
+async function generateIntoEditor(
+	plugin: OLocalLLMPlugin,
+	jobLabel: string,
+	messages: ChatMessage[] | MessagePreparer,
+	historyPrompt: string,
+	selectedText: string,
+	errorMessage: string,
+	options: GenerateOptions = {}
+) {
+	// The reading view selection travels in options, so retries and regeneration write to the same place.
+	// Its offsets date from the selection; an earlier run or an edit may have changed the note since
+	const reading = options.readingSelection;
+	if (reading && (await plugin.app.vault.read(reading.file).catch(() => null))?.slice(reading.from, reading.to) !== reading.text) {
+		new Notice(`${reading.file.basename} changed since the text was selected. Select it again in reading view`);
+		return;
+	}
+	const { profileId, chunkedMessages, sampling, jsonSchema, bypassCache } = options;
+	const retry = () => generateIntoEditor(plugin, jobLabel, messages, historyPrompt, selectedText, errorMessage, options);
+	plugin.lastGeneration = () => generateIntoEditor(plugin, jobLabel, messages, historyPrompt, selectedText, errorMessage, { ...options, bypassCache: true });
+	const streamed = plugin.settings.stream && !jsonSchema;
+	const profileSettings = resolveProfileSettings(plugin.settings, profileId);
+	// Prompt overrides also drive context budgeting and map-reduce chunk sizes
+	const llmSettings: OLocalLLMSettings = {
+		...profileSettings,
+		temperature: sampling?.temperature ?? profileSettings.temperature,
+		maxTokens: sampling?.maxTokens ?? profileSettings.maxTokens,
+	};
 
-			if (statusCode >= 200 && statusCode < 300) {
-				const data = await response.json;
-				
-				// Validate response structure
-				if (!data?.choices?.[0]?.message) {
-					console.error("Invalid response format from server:", data);
-					throw new Error("Invalid response from server. Expected 'choices[0].message' in response. Check console for details.");
+	// Reachable from the catch block, so a failed generation still closes its writer
+	let pendingWriter: OutputWriter | null = null;
+	try {
+		let prepareMessages: MessagePreparer;
+		let keyMessages = options.keyMessages;
+		let chunked = true;
+		if (typeof messages === "function") {
+			prepareMessages = messages;
+		} else {
+			let requestMessages = messages;
+			if (findImageEmbeds(selectedText).length > 0) {
+				if (isVisionModel(llmSettings)) {
+					const sourcePath = plugin.app.workspace.getActiveFile()?.path || "";
+					requestMessages = attachImages(messages, await resolveImageEmbeds(plugin.app, selectedText, sourcePath));
+				} else {
+					new Notice(`${llmSettings.llmModel} is not marked as a vision model, image embeds are sent as text`);
 				}
-				
-				let content = data.choices[0].message.content || '';
-				let reasoning = data.choices[0].message.reasoning || '';
+			}
+			const budgeted = await applyContextBudget(plugin.app, llmSettings, requestMessages, !!chunkedMessages);
+			if (!budgeted) return;
+			keyMessages = requestMessages;
+			chunked = budgeted === "chunk";
+			prepareMessages = budgeted === "chunk"
+				? chunkedMessages!
+				: async () => budgeted;
+		}
 
-				// If content is empty but reasoning exists, use reasoning as the source
-				let summarizedText = content;
-				if ((!content || content.trim().length === 0) && reasoning && reasoning.trim().length > 0) {
-					summarizedText = reasoning;
-				}
+		// Everything that changes the answer is part of the key, so edited prompts or settings miss
+		const cacheKey = plugin.settings.responseCacheEnabled && keyMessages
+			? await hashCacheKey({
+				serverAddress: llmSettings.serverAddress,
+				providerType: llmSettings.providerType,
+				model: llmSettings.llmModel,
+				messages: keyMessages,
+				chunked,
+				sampling: { ...sampling, temperature: llmSettings.temperature, maxTokens: llmSettings.maxTokens },
+				ollama: llmSettings.providerType === "ollama"
+					? { numCtx: llmSettings.ollamaNumCtx, format: llmSettings.ollamaFormat, think: llmSettings.ollamaThink }
+					: undefined,
+				jsonSchema,
+			})
+			: undefined;
+		const cached = cacheKey && !bypassCache ? await plugin.responseCache.get(cacheKey) : undefined;
+
+		const writer = createOutputWriter(options.outputMode || plugin.settings.outputMode, {
+			app: plugin.app,
+			settings: plugin.settings,
+			selectedText,
+			title: jobLabel,
+			openPreview: () => plugin.openResponsePreview(),
+			readingSelection: options.readingSelection,
+		});
+		if (!writer) {
+			new Notice("No active view");
+			return;
+		}
+		pendingWriter = writer;
 
-				// Extract actual response if this is a reasoning model
-				summarizedText = extractActualResponse(summarizedText, plugin.settings);
+		let result: ChatResult;
+		if (cached !== undefined) {
+			await writer.start();
+			result = { text: cached, content: cached, reasoning: "", cancelled: false };
+		} else {
+			if (plugin.jobs.runningCount >= (plugin.settings.maxConcurrentJobs || 1)) {
+				new Notice(`Queued: ${jobLabel}`);
+			}
 
-				console.log(summarizedText);
-				updateConversationHistory(prompt + ": " + selectedText, summarizedText, plugin.conversationHistory, plugin.settings.maxConvHistory);
-				new Notice("Text generated. Voila!");
-				if (!plugin.isKillSwitchActive) {
-					if (plugin.settings.responseFormatting === true) {
-						modifySelectedText(summarizedText + plugin.settings.responseFormatAppend, plugin.app);
-					} else {
-						modifySelectedText(summarizedText, plugin.app);
-					}
-				} else {
-					new Notice("Text generation stopped by kill switch");
-					plugin.isKillSwitchActive = false; // Reset the kill switch
+			const client = new LLMClient(llmSettings, sampling);
+			result = await plugin.jobs.run(jobLabel, async (signal, job) => {
+				// Cancelled while queued: leave the note untouched
+				if (signal.aborted) {
+					return { text: "", content: "", reasoning: "", cancelled: true } as ChatResult;
 				}
-			} else {
-				throw new Error(
-					"Error generating text (requestUrl): " + response.text
-				);
-			}
-		}
-	} catch (error) {
-		console.error("Error during request:", error);
-		new Notice(
-			"Error generating text: Check plugin console for more details!"
-		);
-	}
-	if (statusBarItemEl) {
-		statusBarItemEl.textContent = "LLM Helper: Ready";
-	} else {
-		console.error("Status bar item element not found");
-	}
-}
+				const finalMessages = await prepareMessages(client, llmSettings, signal, job);
 
-// Function to extract actual response from reasoning models
-function extractActualResponse(response: string, settings: OLocalLLMSettings): string {
-	if (!settings.extractReasoningResponses) {
-		return response;
-	}
+				// Write the prefix only once the job leaves the queue, right before tokens arrive
+				new Notice("Generating response. This takes a few seconds..");
+				await writer.start();
 
-	try {
-		const markers = JSON.parse(settings.reasoningMarkers || "[]");
-
-		let extractedResponse = response;
-
-		// Look for common reasoning patterns and extract the actual response
-		for (const marker of markers) {
-			const { start, end } = marker;
-
-			// Find the start marker
-			const startIndex = extractedResponse.indexOf(start);
-			if (startIndex !== -1) {
-				// Find the end marker after the start marker
-				const endIndex = extractedResponse.indexOf(end, startIndex + start.length);
-				if (endIndex !== -1) {
-					// Extract the content after the reasoning section
-					const afterEndIndex = endIndex + end.length;
-					const afterContent = extractedResponse.substring(afterEndIndex).trim();
-
-					// If there's content after the reasoning section, use that
-					if (afterContent) {
-						extractedResponse = afterContent;
-					} else {
-						// If no content after reasoning section, try to find content before it
-						const beforeContent = extractedResponse.substring(0, startIndex).trim();
-						if (beforeContent) {
-							extractedResponse = beforeContent;
-						}
-					}
-				} else {
-					// If end marker not found, try to find the content after the start marker
-					const afterStartIndex = startIndex + start.length;
-					const afterContent = extractedResponse.substring(afterStartIndex).trim();
-
-					// Look for the first substantial paragraph after reasoning
-					const paragraphs = afterContent.split('\n\n');
-					for (const para of paragraphs) {
-						if (para.trim().length > 20) { // Arbitrary threshold for "substantial" content
-							extractedResponse = para.trim();
-							break;
-						}
-					}
+				if (jsonSchema) {
+					const structured = await requestStructured(client, { messages: finalMessages, schema: jsonSchema, signal });
+					job.tokens = structured.completionTokens;
+					const text = "```json\n" + JSON.stringify(structured.value, null, 2) + "\n```";
+					return { text, content: text, reasoning: "", cancelled: false } as ChatResult;
 				}
-			}
+
+				const chatResult = await client.chat({ messages: finalMessages }, {
+					onToken: (token) => {
+						job.tokens++;
+						writer.token(token);
+					},
+					signal,
+				});
+				job.tokens = chatResult.completionTokens ?? job.tokens;
+				return chatResult;
+			}, { kind: "prompt", retry });
 		}
 
-		// Additional heuristics for common reasoning patterns
-		// Look for patterns like "Answer:" or "Result:" after reasoning
-		const answerMatch = extractedResponse.match(/(?:Answer|Result|Output):\s*(.*)/i);
-		if (answerMatch && answerMatch[1]) {
-			const answerPart = answerMatch[1].trim();
-			if (answerPart.length > 10) { // If the answer part is substantial
-				extractedResponse = answerPart;
+		if (result.cancelled) {
+			await writer.cancel();
+			new Notice("Text generation cancelled");
+		} else {
+			if (cacheKey && cached === undefined) {
+				plugin.responseCache.set(cacheKey, result.text)
+					.catch(error => console.error("Could not save response to cache:", error));
 			}
-		}
 
-		// Clean up any remaining artifacts
-		extractedResponse = extractedResponse.replace(/^\s*-\s*|\*\s*/gm, '').trim();
+			// Extract actual response if this is a reasoning model (structured replies are already clean JSON)
+			const finalResponse = jsonSchema ? result.text : extractActualResponse(result.text, plugin.settings);
+			updateConversationHistory(historyPrompt, finalResponse, plugin.conversationHistory, plugin.settings.maxConvHistory);
 
-		return extractedResponse || response; // Return original if extraction yields empty
+			// Streamed tokens were already written, the writer only closes the answer
+			const streamedIntoWriter = streamed && cached === undefined;
+			await writer.finish(finalResponse, streamedIntoWriter);
+			new Notice(cached !== undefined
+				? "Inserted cached response. Use 'Regenerate last response (bypass cache)' for a new one"
+				: streamedIntoWriter ? "Text generation complete. Voila!" : "Text generated. Voila!");
+		}
 	} catch (error) {
-		console.error("Error extracting reasoning response:", error);
-		return response; // Return original response if extraction fails
-	}
-}
-
-function modifySelectedText(text: any, app: App) {
-	let view = app.workspace.getActiveViewOfType(MarkdownView);
-	if (!view) {
-		new Notice("No active view");
-	} else {
-		let view_mode = view.getMode();
-		switch (view_mode) {
-			case "preview":
-				new Notice("Cannot summarize in preview");
-			case "source":
-				if ("editor" in view) {
-					view.editor.replaceSelection(text);
-				}
-				break;
-			default:
-				new Notice("Unknown view mode");
+		// Keep a partial answer in place, as one undo step
+		await pendingWriter?.cancel();
+		if (isAbortError(error)) {
+			// Cancelled during the map phase of chunked processing
+			new Notice("Text generation cancelled");
+			return;
 		}
+		console.error("Error during request:", error);
+		new Notice(error instanceof StructuredOutputError
+			? "The model did not return JSON matching the schema. Check plugin console for details!"
+			: errorMessage);
 	}
 }
+// <GENERATE_INTO_EDITOR_END>
 
 export class LLMChatModal extends Modal {
 	result: string = "";
 	pluginSettings: OLocalLLMSettings;
 	conversationHistory: ConversationEntry[] = [];
 	submitButton: ButtonComponent;
+	jobs: JobRegistry;
+	tools: ChatTool[];
+	renderComponent = new Component(); // Owns the markdown rendered into the chat while the modal is open
 
-	constructor(app: App, settings: OLocalLLMSettings) {
+	constructor(app: App, settings: OLocalLLMSettings, jobs: JobRegistry, tools: ChatTool[] = [], initialInput = "") {
 		super(app);
 		this.pluginSettings = settings;
+		this.jobs = jobs;
+		this.tools = tools;
+		this.result = initialInput; // Text sent from the editor, to be completed with a question
 	}
 
 	onOpen() {
 		const { contentEl } = this;
+		this.renderComponent.load();
 
 		contentEl.classList.add("llm-chat-modal");
 
@@ -2949,6 +4275,7 @@ export class LLMChatModal extends Modal {
 				this.updateSubmitButtonState();
 			});
 		textInput.inputEl.classList.add("llm-chat-input");
+		textInput.setValue(this.result);
 		textInput.inputEl.addEventListener('keypress', (event) => {
 			if (event.key === 'Enter' && this.result.trim() !== "") {
 				event.preventDefault();
@@ -2971,6 +4298,7 @@ export class LLMChatModal extends Modal {
 
 	onClose() {
 		let { contentEl } = this;
+		this.renderComponent.unload();
 		contentEl.empty();
 	}
 
@@ -2998,7 +4326,11 @@ export class LLMChatModal extends Modal {
 				this.contentEl,
 				chatHistoryEl as HTMLElement,
 				this.conversationHistory,
-				this.pluginSettings
+				this.pluginSettings,
+				this.jobs,
+				this.app,
+				this.renderComponent,
+				this.tools
 			);
 			this.result = ""; // Clear user input field
 			const textInputEl = this.contentEl.querySelector('.llm-chat-input') as HTMLInputElement;
@@ -3018,7 +4350,7 @@ export class LLMChatModal extends Modal {
 	}
 }
 
-async function processChatInput(text: string, personas: string, chatContainer: HTMLElement, chatHistoryEl: HTMLElement, conversationHistory: ConversationEntry[], pluginSettings: OLocalLLMSettings) {
+async function processChatInput(text: string, personas: string, chatContainer: HTMLElement, chatHistoryEl: HTMLElement, conversationHistory: ConversationEntry[], pluginSettings: OLocalLLMSettings, jobs: JobRegistry, app: App, renderComponent: Component, tools: ChatTool[] = []) {
 	const { contentEl } = this; // Assuming 'this' refers to the LLMChatModal instance
 
 	// Add user's question to conversation history
@@ -3026,7 +4358,7 @@ async function processChatInput(text: string, personas: string, chatContainer: H
 	if (chatHistoryEl) {
 		const chatElement = document.createElement('div');
 		chatElement.classList.add('llmChatMessageStyleUser');
-		chatElement.innerHTML = text;
+		chatElement.setText(text);
 		chatHistoryEl.appendChild(chatElement);
 	}
 
@@ -3037,97 +4369,80 @@ async function processChatInput(text: string, personas: string, chatContainer: H
 	console.log(text);
 
 	try {
-		const body = {
-			model: pluginSettings.llmModel,
-			messages: [
-				{ role: "system", content: pluginSettings.defaultSystemPrompt || "You are my text editor AI agent who provides concise and helpful responses." },
-				...conversationHistory.slice(-pluginSettings.maxConvHistory).reduce((acc, entry) => {
-					acc.push({ role: "user", content: entry.prompt });
-					acc.push({ role: "assistant", content: entry.response });
-					return acc;
-				}, [] as { role: string; content: string }[]),
-				{ role: "user", content: text },
-			],
-			temperature: pluginSettings.temperature,
-			max_tokens: pluginSettings.maxTokens,
-			stream: false, // Set to false for chat window
-		};
+		const messages = buildChatMessages(
+			pluginSettings.defaultSystemPrompt || "You are my text editor AI agent who provides concise and helpful responses.",
+			conversationHistory,
+			pluginSettings.maxConvHistory,
+			text
+		);
 
-		const response = await requestUrl({
-			url: `${pluginSettings.serverAddress}/chat/completions`,
-			method: "POST",
-			headers: { "Content-Type": "application/json" },
-			body: JSON.stringify(body),
-		});
+		// Chat window always waits for the full answer
+		const llmSettings = resolveProfileSettings(pluginSettings, pluginSettings.chatProfileId);
+		const budgetedMessages = await applyContextBudget(app, llmSettings, messages);
+		if (!budgetedMessages || budgetedMessages === "chunk") {
+			conversationHistory.pop();
+			hideThinkingIndicator(chatHistoryEl);
+			return;
+		}
 
-		const statusCode = response.status;
+		const client = new LLMClient(llmSettings);
+		const result = await jobs.run("Chat", async (signal, job) => {
+			const chatResult = tools.length > 0
+				? await runToolConversation(client, budgetedMessages, tools, {
+					signal,
+					onToolCall: (call) => showToolCall(chatHistoryEl, call),
+				})
+				: await client.chat({ messages: budgetedMessages, stream: false }, { signal });
+			job.tokens = chatResult.completionTokens ?? 0;
+			return chatResult;
+		}, { kind: "chat" });
+		if (result.cancelled) {
+			hideThinkingIndicator(chatHistoryEl);
+			new Notice("Chat request cancelled");
+			return;
+		}
+		let llmResponse = result.text;
+
+		// Extract actual response if this is a reasoning model
+		// Create a temporary settings object to pass to the extraction function
+		const tempSettings: OLocalLLMSettings = {
+			...pluginSettings,
+			extractReasoningResponses: pluginSettings.extractReasoningResponses || false,
+			reasoningMarkers: pluginSettings.reasoningMarkers || DEFAULT_SETTINGS.reasoningMarkers
+		};
 
-		if (statusCode >= 200 && statusCode < 300) {
-			const data = await response.json;
-			let content = data.choices[0].message.content;
-			let reasoning = data.choices[0].message.reasoning || '';
+		llmResponse = extractActualResponse(llmResponse, tempSettings);
 
-			// If content is empty but reasoning exists, use reasoning as the source
-			let llmResponse = content;
-			if ((!content || content.trim().length === 0) && reasoning && reasoning.trim().length > 0) {
-				llmResponse = reasoning;
-			}
+		// Create response container
+		const responseContainer = document.createElement('div');
+		responseContainer.classList.add('llmChatMessageStyleAI');
 
-			// Extract actual response if this is a reasoning model
-			// Create a temporary settings object to pass to the extraction function
-			const tempSettings: OLocalLLMSettings = {
-				...pluginSettings,
-				extractReasoningResponses: pluginSettings.extractReasoningResponses || false,
-				reasoningMarkers: pluginSettings.reasoningMarkers || DEFAULT_SETTINGS.reasoningMarkers
-			};
+		// The answer is shaped by tool results and web pages, so it is rendered as markdown, never as raw HTML
+		const responseTextEl = document.createElement('div');
+		await MarkdownRenderer.render(app, llmResponse, responseTextEl, "", renderComponent);
+		responseContainer.appendChild(responseTextEl);
 
-			llmResponse = extractActualResponse(llmResponse, tempSettings);
-
-			// Convert LLM response to HTML
-			let formattedResponse = llmResponse;
-			//conver to html - bold
-			formattedResponse = formattedResponse.replace(/\*\*(.*?)\*\*/g, "<b>$1</b>");
-			formattedResponse = formattedResponse.replace(/_(.*?)_/g, "<i>$1</i>");
-			formattedResponse = formattedResponse.replace(/\n\n/g, "<br><br>");
-
-			console.log("formattedResponse", formattedResponse);
-
-			// Create response container
-			const responseContainer = document.createElement('div');
-			responseContainer.classList.add('llmChatMessageStyleAI');
-
-			// Create response text element
-			const responseTextEl = document.createElement('div');
-			responseTextEl.innerHTML = formattedResponse;
-			responseContainer.appendChild(responseTextEl);
-
-			// Create copy button
-			const copyButton = document.createElement('button');
-			copyButton.classList.add('copy-button');
-			setIcon(copyButton, 'copy');
-			copyButton.addEventListener('click', () => {
-				navigator.clipboard.writeText(llmResponse).then(() => {
-					new Notice('Copied to clipboard!');
-				});
+		// Create copy button
+		const copyButton = document.createElement('button');
+		copyButton.classList.add('copy-button');
+		setIcon(copyButton, 'copy');
+		copyButton.addEventListener('click', () => {
+			navigator.clipboard.writeText(llmResponse).then(() => {
+				new Notice('Copied to clipboard!');
 			});
-			responseContainer.appendChild(copyButton);
-
-			// Add response container to chat history
-			chatHistoryEl.appendChild(responseContainer);
+		});
+		responseContainer.appendChild(copyButton);
 
-			// Add LLM response to conversation history with Markdown
-			updateConversationHistory(text, formattedResponse, conversationHistory, pluginSettings.maxConvHistory);
+		// Add response container to chat history
+		chatHistoryEl.appendChild(responseContainer);
 
-			hideThinkingIndicator(chatHistoryEl);
+		// Add LLM response to conversation history with Markdown
+		updateConversationHistory(text, llmResponse, conversationHistory, pluginSettings.maxConvHistory);
 
-			// Scroll to bottom after response is generated
-			scrollToBottom(chatContainer);
+		hideThinkingIndicator(chatHistoryEl);
 
-		} else {
-			throw new Error(
-				"Error getting response from LLM server: " + response.text
-			);
-		}
+		// Scroll to bottom after response is generated
+		scrollToBottom(chatContainer);
 	} catch (error) {
 		console.error("Error during request:", error);
 		new Notice(
@@ -3138,6 +4453,25 @@ async function processChatInput(text: string, personas: string, chatContainer: H
 
 }
 
+// Shows which tool the model is running, above the final answer
+function showToolCall(chatHistoryEl: HTMLElement, call: ToolCall) {
+	const args = Object.values(call.arguments)
+		.map(value => {
+			const text = typeof value === "string" ? value : JSON.stringify(value);
+			return text.length > 60 ? text.slice(0, 60) + "…" : text;
+		})
+		.join(", ");
+	const toolCallEl = chatHistoryEl.createDiv({ cls: "llm-chat-tool-call" });
+	setIcon(toolCallEl.createSpan({ cls: "llm-chat-tool-call-icon" }), "wrench");
+	toolCallEl.createSpan({ text: `${call.name}(${args})` });
+
+	// Keep the thinking indicator last
+	const thinkingIndicatorEl = chatHistoryEl.querySelector('.thinking-indicator');
+	if (thinkingIndicatorEl) {
+		chatHistoryEl.appendChild(thinkingIndicatorEl);
+	}
+}
+
 function showThinkingIndicator(chatHistoryEl: HTMLElement) {
 	const thinkingIndicatorEl = document.createElement('div');
 	thinkingIndicatorEl.classList.add('thinking-indicator');
@@ -3245,8 +4579,6 @@ class SelectPromptModal extends Modal {
 //TODO: add a button to clear the chat history
 //TODO: add a button to save the chat history to a obsidian file
 
-//TODO: kill switch
-
 // Helper function to get the API key based on the selected search engine
 function getSearchApiKey(plugin: OLocalLLMPlugin): string {
 	switch (plugin.settings.searchEngine) {
@@ -3421,7 +4753,27 @@ function formatSearchResults(results: any, searchEngine: string, searchType: 'we
 	return "No results found or unsupported format.";
 }
 
-async function processWebSearch(query: string, plugin: OLocalLLMPlugin) {
+/* Contract: Query the configured search engine --> Check the API key, call the engine and format its results --> Return plain-text results, or throw when the engine fails */
+async function searchWeb(query: string, plugin: OLocalLLMPlugin, searchType: 'web' | 'news' = 'web'): Promise<string> {
+	const requiresApiKey = plugin.settings.searchEngine !== 'duckduckgo' && plugin.settings.searchEngine !== 'custom';
+	if (requiresApiKey && !getSearchApiKey(plugin)) {
+		throw new Error(`No API key set for ${searchEnginesDict[plugin.settings.searchEngine] || 'the search engine'}`);
+	}
+
+	const response = await requestUrl({
+		url: getSearchUrl(plugin, query, searchType),
+		method: "GET",
+		headers: getSearchHeaders(plugin)
+	});
+
+	if (response.status !== 200) {
+		throw new Error(`${searchType === 'news' ? 'News search' : 'Search'} failed with status: ${response.status}`);
+	}
+
+	return formatSearchResults(response.json, plugin.settings.searchEngine, searchType);
+}
+
+async function processWebSearch(query: string, plugin: OLocalLLMPlugin, readingSelection?: ReadingSelection) {
 	// Check if API key is required and available for the search engines
 	const requiresApiKey = plugin.settings.searchEngine !== 'duckduckgo' && plugin.settings.searchEngine !== 'custom';
 	const apiKey = getSearchApiKey(plugin);
@@ -3465,29 +4817,20 @@ async function processWebSearch(query: string, plugin: OLocalLLMPlugin) {
 			processText(
 				`Search results for "${query}":\n\n${context}`,
 				"Summarize these search results concisely. Use bullet points for key facts and cite sources inline as [Source](url).",
-				plugin
+				plugin,
+				plugin.settings.webSearchProfileId,
+				readingSelection
 			);
 		} else {
 			// Use the legacy search engine system for backward compatibility
-			const url = getSearchUrl(plugin, query, 'web');
-			const headers = getSearchHeaders(plugin);
-
-			const response = await requestUrl({
-				url: url,
-				method: "GET",
-				headers: headers
-			});
-
-			if (response.status !== 200) {
-				throw new Error(`Search failed with status: ${response.status}`);
-			}
-
-			const formattedResults = formatSearchResults(response.json, plugin.settings.searchEngine, 'web');
+			const formattedResults = await searchWeb(query, plugin, 'web');
 
 			processText(
 				`Based on these comprehensive search results about "${query}" from ${searchEnginesDict[plugin.settings.searchEngine]}:\n\n${formattedResults}`,
 				"You are a helpful assistant. Analyze these detailed search results and provide a thorough, well-structured response. Include relevant source citations and consider multiple perspectives if available.",
-				plugin
+				plugin,
+				plugin.settings.webSearchProfileId,
+				readingSelection
 			);
 		}
 	} catch (error) {
@@ -3496,7 +4839,7 @@ async function processWebSearch(query: string, plugin: OLocalLLMPlugin) {
 	}
 }
 
-async function processNewsSearch(query: string, plugin: OLocalLLMPlugin) {
+async function processNewsSearch(query: string, plugin: OLocalLLMPlugin, readingSelection?: ReadingSelection) {
 	// Check if API key is required and available for the search engines
 	const requiresApiKey = plugin.settings.searchEngine !== 'duckduckgo' && plugin.settings.searchEngine !== 'custom';
 	const apiKey = getSearchApiKey(plugin);
@@ -3538,29 +4881,20 @@ async function processNewsSearch(query: string, plugin: OLocalLLMPlugin) {
 			processText(
 				`News results for "${query}":\n\n${context}`,
 				"Summarize these news results concisely. List key developments as bullet points and cite sources inline as [Source](url).",
-				plugin
+				plugin,
+				plugin.settings.webSearchProfileId,
+				readingSelection
 			);
 		} else {
 			// Use the legacy search engine system for backward compatibility
-			const url = getSearchUrl(plugin, query, 'news');
-			const headers = getSearchHeaders(plugin);
-
-			const response = await requestUrl({
-				url: url,
-				method: "GET",
-				headers: headers
-			});
-
-			if (response.status !== 200) {
-				throw new Error(`News search failed with status: ${response.status}`);
-			}
-
-			const formattedResults = formatSearchResults(response.json, plugin.settings.searchEngine, 'news');
+			const formattedResults = await searchWeb(query, plugin, 'news');
 
 			processText(
 				`Based on these news results about "${query}" from ${searchEnginesDict[plugin.settings.searchEngine]}:\n\n${formattedResults}`,
 				"Analyze these news results and provide a comprehensive summary with key points and timeline. Include source citations.",
-				plugin
+				plugin,
+				plugin.settings.webSearchProfileId,
+				readingSelection
 			);
 		}
 	} catch (error) {
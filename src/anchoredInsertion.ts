@@ -0,0 +1,203 @@
+import { Text, Transaction } from "@codemirror/state";
+import { EditorView, ViewUpdate } from "@codemirror/view";
+import { App, Editor, EditorPosition, MarkdownView, Notice, TFile } from "obsidian";
+
+/* Module Contract: Keep a generation tied to where it started --> Track a range of the source note through every edit, write into its editor while the note is shown there and through the vault once it is not --> One undo step per generation */
+
+// Every insertion still being written; the editor extension maps them through document changes
+const activeInsertions = new Set<AnchoredInsertion>();
+
+// Characters before the range that must still be there when writing to the file, to find the range again
+const ANCHOR_CONTEXT_LENGTH = 64;
+
+// Streamed tokens are collected and written to the file at most this often; each write is a modify event for sync and indexers
+const VAULT_WRITE_INTERVAL_MS = 1000;
+
+/* Contract: Editor extension for the plugin --> Forward document changes to the open insertions --> Registered once with registerEditorExtension */
+export const anchoredInsertionTracker = EditorView.updateListener.of(update => {
+	if (!update.docChanged) return;
+	for (const insertion of activeInsertions) {
+		insertion.mapThrough(update);
+	}
+});
+
+// Obsidian's Editor wraps a CodeMirror 6 view, but does not expose it in its typings
+export function getEditorView(editor: Editor): EditorView | null {
+	return (editor as unknown as { cm?: EditorView }).cm ?? null;
+}
+
+/* Class Contract: A tracked range in a note --> replace() and insert() write there without touching the cursor or the undo history, commit() turns everything written into one undo step --> Output writers use it instead of replaceSelection */
+export class AnchoredInsertion {
+	private cm: EditorView | null;
+	private original: string | null = null; // Text of the range before the first write, for the undo step
+	private vaultWrites: Promise<void> = Promise.resolve();
+	private flushTimer: number | null = null;
+	// Writes through the vault: what the file holds at the range, what it should hold, and the text just before it
+	private written = "";
+	private content = "";
+	private before = "";
+	private lost = false; // The range could not be found in the file; nothing more is written
+
+	private constructor(private app: App, private view: MarkdownView | null, readonly file: TFile, private from: number, private to: number) {
+		this.cm = view ? getEditorView(view.editor) : null;
+		activeInsertions.add(this);
+	}
+
+	/* Contract: Start tracking a range of the note shown in a view --> Convert editor positions to offsets --> Return null when the view has no file */
+	static capture(app: App, view: MarkdownView, from: EditorPosition, to: EditorPosition): AnchoredInsertion | null {
+		if (!view.file) return null;
+		return new AnchoredInsertion(app, view, view.file, view.editor.posToOffset(from), view.editor.posToOffset(to));
+	}
+
+	/* Contract: Track a range of a file that is not being edited, e.g. a selection in reading view --> Use file offsets, the text the range holds and the text expected right before it --> Every write goes through the vault */
+	static inFile(app: App, file: TFile, from: number, to: number, text: string, before = ""): AnchoredInsertion {
+		const insertion = new AnchoredInsertion(app, null, file, from, to);
+		insertion.written = insertion.content = text;
+		insertion.before = before.slice(-ANCHOR_CONTEXT_LENGTH);
+		return insertion;
+	}
+
+	// True while the source note is still shown in the view the prompt ran in
+	private get attached(): boolean {
+		return this.cm !== null && this.view?.file === this.file;
+	}
+
+	mapThrough(update: ViewUpdate) {
+		if (update.view !== this.cm) return;
+		if (!this.attached) {
+			this.detach(update.startState.doc);
+			return;
+		}
+		// Loading another file into the view replaces the whole document; the range cannot follow that
+		let reloaded = false;
+		update.changes.iterChangedRanges((fromA, toA) => {
+			if (fromA === 0 && toA === update.startState.doc.length && toA > 0) reloaded = true;
+		});
+		if (reloaded) {
+			this.detach(update.startState.doc);
+			return;
+		}
+		this.from = update.changes.mapPos(this.from, -1);
+		this.to = update.changes.mapPos(this.to, 1);
+	}
+
+	/* Contract: Replace the whole range --> Write into the editor, or into the file when the note is no longer shown --> The range now covers exactly text */
+	replace(text: string) {
+		this.write(this.from, this.to, text);
+	}
+
+	/* Contract: Add text at the end of the range --> Same destination rules as replace() --> The range grows by text */
+	insert(text: string) {
+		this.write(this.to, this.to, text);
+	}
+
+	private write(from: number, to: number, text: string) {
+		if (this.original === null) {
+			this.original = this.read();
+		}
+		if (this.attached) {
+			// The tracker extension moves the range over the new text
+			this.cm!.dispatch({
+				changes: { from, to, insert: text },
+				annotations: Transaction.addToHistory.of(false),
+			});
+			return;
+		}
+
+		this.detach(this.cm?.state.doc);
+		// Kept up to date even when the range is lost, so the whole answer can go to the clipboard
+		this.content = this.content.slice(0, from - this.from) + text + this.content.slice(to - this.from);
+		this.to = this.from + this.content.length;
+		if (this.flushTimer === null) {
+			this.flushTimer = window.setTimeout(() => this.queueFlush(), VAULT_WRITE_INTERVAL_MS);
+		}
+	}
+
+	private queueFlush() {
+		if (this.flushTimer !== null) {
+			window.clearTimeout(this.flushTimer);
+			this.flushTimer = null;
+		}
+		this.vaultWrites = this.vaultWrites
+			.then(() => this.flush())
+			.catch(error => console.error(`Could not write the response to ${this.file.path}:`, error));
+	}
+
+	/* Contract: Bring the file up to date --> Find the range again, swap what it holds for the current content --> Give up, writing nothing, when the range is gone */
+	private async flush() {
+		if (this.lost || this.written === this.content) return;
+		await this.app.vault.process(this.file, data => {
+			const from = this.locate(data);
+			if (from === null) {
+				this.lost = true;
+				return data;
+			}
+			const content = this.content;
+			const updated = data.slice(0, from) + content + data.slice(from + this.written.length);
+			this.from = from;
+			this.to = from + content.length;
+			this.written = content;
+			return updated;
+		});
+	}
+
+	// The editor may hold edits the file does not have yet, so offsets are only trusted when the text around them matches
+	private locate(data: string): number | null {
+		const anchor = this.before + this.written;
+		if (data.slice(this.from - this.before.length, this.from + this.written.length) === anchor) {
+			return this.from;
+		}
+		const index = anchor ? data.indexOf(anchor) : -1;
+		if (index === -1 || data.indexOf(anchor, index + 1) !== -1) {
+			return null;
+		}
+		return index + this.before.length;
+	}
+
+	private read(): string {
+		return this.attached ? this.cm!.state.doc.sliceString(this.from, this.to) : "";
+	}
+
+	/* Contract: Finish the generation --> Swap the unrecorded writes for a single recorded change and move the cursor after it if it was left at the range --> Stop tracking; undo now removes the whole answer at once */
+	async commit() {
+		activeInsertions.delete(this);
+		const original = this.original;
+		this.original = null;
+		if (original === null) return;
+		if (!this.attached) {
+			// Writes through the vault have no editor history to merge into
+			this.queueFlush();
+			await this.vaultWrites;
+			if (this.lost) {
+				await navigator.clipboard.writeText(this.content).catch(() => { });
+				new Notice(`${this.file.basename} changed where the response was going, so it was copied to the clipboard instead`);
+			}
+			return;
+		}
+
+		const cm = this.cm!;
+		const text = cm.state.doc.sliceString(this.from, this.to);
+		if (text === original) return;
+		const head = cm.state.selection.main.head;
+		const cursorAtRange = cm.state.selection.main.empty && (head === this.from || head === this.to);
+		cm.dispatch({
+			changes: { from: this.from, to: this.to, insert: original },
+			annotations: Transaction.addToHistory.of(false),
+		});
+		cm.dispatch({
+			changes: { from: this.from, to: this.from + original.length, insert: text },
+			selection: cursorAtRange ? { anchor: this.from + text.length } : undefined,
+			userEvent: "input",
+		});
+	}
+
+	// Once the note leaves the view, later writes go to the file; remember the text that identifies the range there
+	private detach(doc?: Text) {
+		if (this.cm && doc) {
+			this.before = doc.sliceString(Math.max(0, this.from - ANCHOR_CONTEXT_LENGTH), this.from);
+			this.written = doc.sliceString(this.from, this.to);
+			this.content = this.written;
+		}
+		this.cm = null;
+	}
+}
@@ -0,0 +1,103 @@
+import { App, TFile } from "obsidian";
+import { OLocalLLMSettings } from "../main";
+import { LLMClientError } from "./llmClient";
+import { isSameServer } from "./providerProfiles";
+import { buildRequestHeaders } from "./requestHeaders";
+import { safeDecode, wikiLinkPattern } from "./wikiLinks";
+
+/* Module Contract: Turn voice memos into text --> Find the audio file embedded or linked in the selection, upload it to an OpenAI-compatible /audio/transcriptions endpoint (whisper.cpp server, faster-whisper) --> Return the transcript for the transcribe command */
+
+const AUDIO_MIME_TYPES: { [extension: string]: string } = {
+	m4a: "audio/mp4",
+	mp3: "audio/mpeg",
+	wav: "audio/wav",
+	webm: "audio/webm",
+	ogg: "audio/ogg",
+	flac: "audio/flac",
+};
+
+// The OpenAI API limit; local servers accept more but take very long on hour-long recordings
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+const WIKI_LINK_PATTERN = wikiLinkPattern(false);
+const MARKDOWN_LINK_PATTERN = /!?\[[^\]]*\]\(\s*<?([^)>]+?)>?\s*\)/g;
+
+/* Contract: Find the audio file a text refers to --> Check wiki and markdown embeds or links, then the text itself as a path --> Return the first link with an audio extension */
+export function findAudioLink(text: string): string | undefined {
+	for (const pattern of [WIKI_LINK_PATTERN, MARKDOWN_LINK_PATTERN]) {
+		pattern.lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = pattern.exec(text)) !== null) {
+			const link = safeDecode(match[1].trim());
+			if (audioMimeType(link)) return link;
+		}
+	}
+	const bare = text.trim();
+	return !bare.includes("\n") && audioMimeType(bare) ? bare : undefined;
+}
+
+/* Contract: Resolve an audio link --> Look the link up like Obsidian does, relative to the note --> Return the vault file or null when it does not exist */
+export function resolveAudioFile(app: App, link: string, sourcePath: string): TFile | null {
+	const file = app.metadataCache.getFirstLinkpathDest(link, sourcePath) || app.vault.getAbstractFileByPath(link);
+	return file instanceof TFile ? file : null;
+}
+
+/* Contract: Transcribe an audio file --> Read the bytes, post them as multipart form data with model and language, cancellable through the signal --> Return the transcript text or throw LLMClientError */
+export async function transcribeAudio(app: App, file: TFile, settings: OLocalLLMSettings, signal?: AbortSignal): Promise<string> {
+	if (file.stat.size > MAX_AUDIO_BYTES) {
+		throw new LLMClientError(`${file.name} is ${Math.round(file.stat.size / 1024 / 1024)} MB, larger than the 25 MB upload limit`);
+	}
+
+	const data = await app.vault.adapter.readBinary(file.path);
+	const form = new FormData();
+	form.append("file", new Blob([data], { type: audioMimeType(file.path) }), file.name);
+	form.append("model", settings.transcriptionModel || "whisper-1");
+	form.append("response_format", "json");
+	if (settings.transcriptionLanguage) {
+		form.append("language", settings.transcriptionLanguage);
+	}
+
+	// No Content-Type header: fetch sets the multipart boundary itself
+	const response = await fetch(transcriptionEndpoint(settings), {
+		method: "POST",
+		headers: transcriptionHeaders(settings),
+		body: form,
+		signal,
+	});
+	const text = await response.text();
+	if (!response.ok) {
+		throw new LLMClientError(`Transcription server returned ${response.status}: ${text}`, response.status, text);
+	}
+
+	try {
+		const json = JSON.parse(text);
+		if (typeof json?.text !== "string") {
+			console.error("Unexpected transcription response:", json);
+			throw new LLMClientError("Invalid response from transcription server. Expected 'text' in response. Check console for details.");
+		}
+		return json.text.trim();
+	} catch (error) {
+		if (error instanceof LLMClientError) throw error;
+		// Some servers ignore response_format and answer with plain text
+		return text.trim();
+	}
+}
+
+function transcriptionEndpoint(settings: OLocalLLMSettings): string {
+	const base = (settings.transcriptionServerAddress || settings.serverAddress).replace(/\/+$/, "");
+	return `${base}/audio/transcriptions`;
+}
+
+// The LLM server's key and extra headers must not leak to another host
+function transcriptionHeaders(settings: OLocalLLMSettings): Record<string, string> {
+	if (settings.transcriptionApiKey) {
+		return { Authorization: `Bearer ${settings.transcriptionApiKey}` };
+	}
+	const server = settings.transcriptionServerAddress || settings.serverAddress;
+	return isSameServer(server, settings.serverAddress) ? buildRequestHeaders(settings) : {};
+}
+
+function audioMimeType(path: string): string | undefined {
+	const extension = path.split(".").pop()?.toLowerCase() || "";
+	return AUDIO_MIME_TYPES[extension];
+}
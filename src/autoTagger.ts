@@ -1,7 +1,19 @@
-import { App, Editor, EditorPosition, MarkdownView, Notice, requestUrl } from "obsidian";
+import { App, Editor, EditorPosition, MarkdownView, Notice } from "obsidian";
 import { OLocalLLMSettings } from "../main";
+import { LLMClient } from "./llmClient";
+import { JobRegistry, LLMJob, isAbortError } from "./jobRegistry";
+import { resolveProfileSettings } from "./providerProfiles";
+import { JSONSchema, requestStructured } from "./structuredOutput";
 
-export async function generateAndAppendTags(app: App, settings: OLocalLLMSettings) {
+const TAGS_SCHEMA: JSONSchema = {
+	type: "object",
+	properties: {
+		tags: { type: "array", items: { type: "string" }, minItems: 1, maxItems: 5 },
+	},
+	required: ["tags"],
+};
+
+export async function generateAndAppendTags(app: App, settings: OLocalLLMSettings, jobs: JobRegistry) {
 	const view = app.workspace.getActiveViewOfType(MarkdownView);
 	if (!view) {
 		new Notice("No active Markdown view");
@@ -16,45 +28,46 @@ export async function generateAndAppendTags(app: App, settings: OLocalLLMSetting
 	const textToProcess = selectedText || fullText;
 
 	try {
-		const tags = await generateTags(textToProcess, settings);
+		const tags = await jobs.run("Generate tags", (signal, job) => generateTags(textToProcess, settings, signal, job), {
+			kind: "tagging",
+			retry: () => generateAndAppendTags(app, settings, jobs),
+		});
+		if (tags.length === 0) {
+			new Notice("The model did not suggest any usable tags");
+			return;
+		}
 		appendTags(editor, tags, cursorPosition);
 		new Notice("Tags generated and appended");
 	} catch (error) {
+		if (isAbortError(error)) {
+			new Notice("Tag generation cancelled");
+			return;
+		}
 		console.error("Error generating tags:", error);
 		new Notice("Error generating tags. Check the console for details.");
 	}
 }
 
-async function generateTags(text: string, settings: OLocalLLMSettings): Promise<string[]> {
-	const prompt = "Generate 1-5 hashtags for the following text. Return only the hashtags, separated by spaces:";
+/* Contract: Ask the model for tags as structured JSON --> Request {"tags": [...]} through requestStructured and normalise the names to Obsidian tag syntax --> Return up to 5 tags, or throw AbortError when cancelled */
+async function generateTags(text: string, settings: OLocalLLMSettings, signal?: AbortSignal, job?: LLMJob): Promise<string[]> {
+	const prompt = "Generate 1-5 tags for the following text. Use short lowercase words, join multi-word tags with hyphens:";
 
-	const body = {
-		model: settings.llmModel,
+	const result = await requestStructured<{ tags: string[] }>(new LLMClient(resolveProfileSettings(settings, settings.taggerProfileId)), {
 		messages: [
-			{ role: "system", content: "You are a helpful assistant that generates relevant hashtags." },
+			{ role: "system", content: "You are a helpful assistant that generates relevant tags for notes." },
 			{ role: "user", content: `${prompt}\n\n${text}` }
 		],
-		temperature: settings.temperature,
-		max_tokens: settings.maxTokens
-	};
-
-	const response = await requestUrl({
-		url: `${settings.serverAddress}/chat/completions`,
-		method: "POST",
-		headers: { "Content-Type": "application/json" },
-		body: JSON.stringify(body)
+		schema: TAGS_SCHEMA,
+		signal,
 	});
+	if (job) job.tokens = result.completionTokens;
 
-	if (response.status !== 200) {
-		throw new Error(`Error from LLM server: ${response.status} ${response.text}`);
-	}
-
-	const data = await response.json;
-	const generatedTags = data.choices[0].message.content.trim().split(/\s+/);
-	return generatedTags
-		.filter((tag: string) => /^#?[a-zA-Z0-9]+$/.test(tag))
-		.map((tag: string) => tag.startsWith('#') ? tag : `#${tag}`)
-		.slice(0, 5);
+	const tags = result.value.tags
+		.map(tag => tag.trim().replace(/^#+/, '').replace(/\s+/g, '-'))
+		// Obsidian tags: letters, digits, _, - and / for nesting, not purely numeric
+		.filter(tag => /^[\p{L}\p{N}_\-/]+$/u.test(tag) && !/^\d+$/.test(tag))
+		.map(tag => `#${tag}`);
+	return [...new Set(tags)].slice(0, 5);
 }
 
 function appendTags(editor: Editor, tags: string[], cursorPosition: EditorPosition) {
@@ -1,13 +1,42 @@
 import { RAGManager } from './rag';
 import { TFile, Vault } from 'obsidian';
+import { OLocalLLMSettings } from '../main';
+import { LLMClient } from './llmClient';
+import { isAbortError } from './jobRegistry';
+import { JSONSchema, requestStructured } from './structuredOutput';
+
+interface BacklinkCandidate {
+	file: TFile;
+	snippet: string;
+}
 
 export class BacklinkGenerator {
-	constructor(private ragManager: RAGManager, private vault: Vault) { }
+	constructor(private ragManager: RAGManager, private vault: Vault, private settings: OLocalLLMSettings) { }
+
+	/* Method Contract: Suggest backlinks for a text --> Collect similar notes from the RAG index, let the model keep the related ones via structured output --> Return wiki links, falling back to all similar notes when the model fails */
+	async generateBacklinks(selectedText: string, signal?: AbortSignal): Promise<string[]> {
+		const candidates = await this.findCandidates(selectedText);
+		if (candidates.length === 0) {
+			return [];
+		}
+
+		let related = candidates;
+		try {
+			related = await this.selectRelated(selectedText, candidates, signal);
+		} catch (error) {
+			if (isAbortError(error)) throw error;
+			console.warn("Could not rank backlinks with the model, using all similar notes:", error);
+		}
+
+		const backlinks = related.map(candidate => `[[${candidate.file.path}|${candidate.file.basename}]]`);
+		console.log("Generated backlinks:", backlinks);
+		return backlinks;
+	}
 
-	async generateBacklinks(selectedText: string): Promise<string[]> {
+	private async findCandidates(selectedText: string): Promise<BacklinkCandidate[]> {
 		const similarNotes = await this.ragManager.findSimilarNotes(selectedText);
 		console.log("Similar notes:", similarNotes);
-		const backlinks: string[] = [];
+		const candidates: BacklinkCandidate[] = [];
 
 		// Split the similarNotes string into individual note entries
 		const noteEntries = similarNotes.split('\n').filter(entry => entry.trim() !== '');
@@ -15,19 +44,46 @@ export class BacklinkGenerator {
 		for (const entry of noteEntries) {
 			console.log("Processing note entry:", entry);
 			// Extract the file path from the entry (assuming it's in the format [[filepath]]: content)
-			const match = entry.match(/\[\[(.*?)\]\]/);
+			const match = entry.match(/^\[\[(.*?)\]\]:?\s*(.*)$/);
 			if (match && match[1]) {
 				const notePath = match[1];
 				const file = this.vault.getAbstractFileByPath(notePath);
 				if (file instanceof TFile) {
 					console.log("File found:", file.path);
-					backlinks.push(`[[${file.path}|${file.basename}]]`);
+					candidates.push({ file, snippet: match[2] });
 				} else {
 					console.log("File not found or not a TFile:", notePath);
 				}
 			}
 		}
-		console.log("Generated backlinks:", backlinks);
-		return backlinks;
+		return candidates;
+	}
+
+	private async selectRelated(selectedText: string, candidates: BacklinkCandidate[], signal?: AbortSignal): Promise<BacklinkCandidate[]> {
+		const paths = candidates.map(candidate => candidate.file.path);
+		// The enum keeps the model from inventing notes that do not exist
+		const schema: JSONSchema = {
+			type: "object",
+			properties: {
+				related: { type: "array", items: { type: "string", enum: paths }, maxItems: paths.length },
+			},
+			required: ["related"],
+		};
+		const candidateList = candidates
+			.map(candidate => `- ${candidate.file.path}: ${candidate.snippet}`)
+			.join('\n');
+
+		const result = await requestStructured<{ related: string[] }>(new LLMClient(this.settings), {
+			messages: [
+				{ role: "system", content: "You are a helpful assistant that links notes in a personal knowledge base." },
+				{ role: "user", content: `Text:\n${selectedText}\n\nCandidate notes:\n${candidateList}\n\nList the paths of the candidate notes that are genuinely related to the text, most related first.` },
+			],
+			schema,
+			signal,
+		});
+
+		return result.value.related
+			.filter((path, index, all) => all.indexOf(path) === index)
+			.map(path => candidates.find(candidate => candidate.file.path === path)!);
 	}
 }
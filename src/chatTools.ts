@@ -0,0 +1,244 @@
+import { App, TFile, getAllTags, normalizePath } from "obsidian";
+import { ChatMessage, ChatResult, LLMClient, LLMClientError, ToolCall, ToolDefinition } from "./llmClient";
+import { RAGManager } from "./rag";
+import { confirmToolAction } from "./toolConfirmModal";
+
+/* Module Contract: Let chat act on the vault --> Define vault and web tools, run the model's tool calls locally (asking before any write) and feed the results back until it answers --> Used by LLMChatModal */
+
+// Rounds of tool calls before the model has to answer with what it has
+const MAX_TOOL_ROUNDS = 5;
+// Keeps a single tool result from filling the context window
+const MAX_RESULT_CHARS = 8000;
+const MAX_LISTED_NOTES = 50;
+
+export interface ChatToolContext {
+	app: App;
+	ragManager: RAGManager;
+	webSearch: (query: string) => Promise<string>; // Formatted results from the configured search engine
+}
+
+export interface ChatTool {
+	definition: ToolDefinition;
+	execute: (args: Record<string, any>) => Promise<string>;
+}
+
+export interface ToolConversationOptions {
+	signal?: AbortSignal;
+	onToolCall?: (call: ToolCall) => void; // Lets the chat window show what the model is doing
+}
+
+/* Contract: Build the built-in chat tools --> Vault search, read note, list by tag, create note, append to note and web search bound to the given context --> Return tools for runToolConversation */
+export function createVaultTools(context: ChatToolContext): ChatTool[] {
+	const { app } = context;
+
+	return [
+		{
+			definition: {
+				name: "search_vault",
+				description: "Semantic search over the indexed notes. Returns the most relevant passages with their note paths.",
+				parameters: {
+					type: "object",
+					properties: {
+						query: { type: "string", description: "What to look for" },
+						limit: { type: "integer", description: "Number of passages, default 4" },
+					},
+					required: ["query"],
+				},
+			},
+			execute: async (args) => {
+				if (context.ragManager.getIndexedFilesCount() === 0) {
+					return "The vault has not been indexed yet, so semantic search is unavailable. Try list_notes_by_tag or read_note instead.";
+				}
+				const results = await context.ragManager.searchNotes(String(args.query || ""), clampLimit(args.limit, 4, 10));
+				if (results.length === 0) return "No matching notes found.";
+				return truncate(results.map(result => `## ${result.source}\n${result.content}`).join("\n\n"));
+			},
+		},
+		{
+			definition: {
+				name: "read_note",
+				description: "Read the markdown content of a note by its vault path or note name.",
+				parameters: {
+					type: "object",
+					properties: {
+						path: { type: "string", description: "Vault path such as 'Projects/Plan.md', or a note name" },
+					},
+					required: ["path"],
+				},
+			},
+			execute: async (args) => {
+				const file = resolveNote(app, String(args.path || ""));
+				if (!file) return `Note not found: ${args.path}`;
+				return truncate(`# ${file.path}\n\n${await app.vault.cachedRead(file)}`);
+			},
+		},
+		{
+			definition: {
+				name: "list_notes_by_tag",
+				description: "List the paths of notes that have a tag (nested tags included).",
+				parameters: {
+					type: "object",
+					properties: {
+						tag: { type: "string", description: "Tag with or without '#', e.g. 'project/active'" },
+					},
+					required: ["tag"],
+				},
+			},
+			execute: async (args) => {
+				const tag = `#${String(args.tag || "").replace(/^#/, "").toLowerCase()}`;
+				const paths = app.vault.getMarkdownFiles()
+					.filter(file => {
+						const cache = app.metadataCache.getFileCache(file);
+						const tags = cache ? getAllTags(cache) || [] : [];
+						return tags.some(noteTag => {
+							const lower = noteTag.toLowerCase();
+							return lower === tag || lower.startsWith(`${tag}/`);
+						});
+					})
+					.map(file => file.path)
+					.sort();
+				if (paths.length === 0) return `No notes tagged ${tag}.`;
+				const listed = paths.slice(0, MAX_LISTED_NOTES).join("\n");
+				return paths.length > MAX_LISTED_NOTES ? `${listed}\n(${paths.length - MAX_LISTED_NOTES} more not shown)` : listed;
+			},
+		},
+		{
+			definition: {
+				name: "create_note",
+				description: "Create a new markdown note. The user is asked to confirm.",
+				parameters: {
+					type: "object",
+					properties: {
+						path: { type: "string", description: "Vault path of the new note, e.g. 'Inbox/Meeting notes.md'" },
+						content: { type: "string", description: "Markdown content" },
+					},
+					required: ["path", "content"],
+				},
+			},
+			execute: async (args) => {
+				let path = normalizePath(String(args.path || ""));
+				if (!path.endsWith(".md")) path += ".md";
+				if (app.vault.getAbstractFileByPath(path)) return `A note already exists at ${path}. Use append_to_note to add to it.`;
+
+				const content = String(args.content || "");
+				if (!await confirmToolAction(app, `Create a new note at ${path}`, { Content: content })) {
+					return "The user declined to create the note.";
+				}
+				const folder = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+				if (folder && !app.vault.getAbstractFileByPath(folder)) {
+					await app.vault.createFolder(folder);
+				}
+				await app.vault.create(path, content);
+				return `Created ${path}.`;
+			},
+		},
+		{
+			definition: {
+				name: "append_to_note",
+				description: "Append markdown to the end of an existing note. The user is asked to confirm.",
+				parameters: {
+					type: "object",
+					properties: {
+						path: { type: "string", description: "Vault path or note name" },
+						content: { type: "string", description: "Markdown to append" },
+					},
+					required: ["path", "content"],
+				},
+			},
+			execute: async (args) => {
+				const file = resolveNote(app, String(args.path || ""));
+				if (!file) return `Note not found: ${args.path}`;
+
+				const content = String(args.content || "");
+				if (!await confirmToolAction(app, `Append to ${file.path}`, { Content: content })) {
+					return "The user declined to change the note.";
+				}
+				await app.vault.process(file, data => `${data.replace(/\s*$/, "")}\n\n${content}\n`);
+				return `Appended to ${file.path}.`;
+			},
+		},
+		{
+			definition: {
+				name: "web_search",
+				description: "Search the web with the search engine configured in the plugin settings.",
+				parameters: {
+					type: "object",
+					properties: {
+						query: { type: "string", description: "Search query" },
+					},
+					required: ["query"],
+				},
+			},
+			execute: async (args) => truncate(await context.webSearch(String(args.query || ""))),
+		},
+	];
+}
+
+/* Contract: Chat with tool use --> Send the tools with each request, execute the calls the model makes and return their output as tool messages, force an answer after MAX_TOOL_ROUNDS --> Return the model's final ChatResult with completion tokens summed over all rounds */
+export async function runToolConversation(client: LLMClient, messages: ChatMessage[], tools: ChatTool[], options: ToolConversationOptions = {}): Promise<ChatResult> {
+	const conversation = [...messages];
+	let definitions: ToolDefinition[] | undefined = tools.map(tool => tool.definition);
+	let completionTokens = 0;
+
+	for (let round = 0; ; round++) {
+		const offerTools = definitions && round < MAX_TOOL_ROUNDS ? definitions : undefined;
+		let result: ChatResult;
+		try {
+			result = await client.chat({ messages: conversation, stream: false, tools: offerTools }, { signal: options.signal });
+		} catch (error) {
+			// Models without tool support are rejected by the server; chat still works without tools
+			if (offerTools && round === 0 && error instanceof LLMClientError && error.status === 400) {
+				console.warn("Server rejected tool calling, continuing without tools:", error.body);
+				definitions = undefined;
+				continue;
+			}
+			throw error;
+		}
+		completionTokens += result.completionTokens ?? 0;
+
+		if (result.cancelled || !offerTools || !result.toolCalls?.length) {
+			return { ...result, completionTokens };
+		}
+
+		conversation.push({ role: "assistant", content: result.content, toolCalls: result.toolCalls });
+		for (const call of result.toolCalls) {
+			options.onToolCall?.(call);
+			conversation.push({
+				role: "tool",
+				content: await executeToolCall(tools, call),
+				toolCallId: call.id,
+				toolName: call.name,
+			});
+			if (options.signal?.aborted) {
+				return { text: "", content: "", reasoning: "", cancelled: true, completionTokens };
+			}
+		}
+	}
+}
+
+async function executeToolCall(tools: ChatTool[], call: ToolCall): Promise<string> {
+	const tool = tools.find(candidate => candidate.definition.name === call.name);
+	if (!tool) return `Error: unknown tool "${call.name}"`;
+	try {
+		return await tool.execute(call.arguments);
+	} catch (error) {
+		console.error(`Tool ${call.name} failed:`, error);
+		return `Error: ${error instanceof Error ? error.message : String(error)}`;
+	}
+}
+
+function resolveNote(app: App, pathOrName: string): TFile | null {
+	const path = normalizePath(pathOrName.replace(/^\[\[|\]\]$/g, ""));
+	const direct = app.vault.getAbstractFileByPath(path) || app.vault.getAbstractFileByPath(`${path}.md`);
+	if (direct instanceof TFile) return direct;
+	return app.metadataCache.getFirstLinkpathDest(path, "");
+}
+
+function clampLimit(value: unknown, fallback: number, max: number): number {
+	const limit = Math.floor(Number(value));
+	return limit > 0 ? Math.min(limit, max) : fallback;
+}
+
+function truncate(text: string): string {
+	return text.length > MAX_RESULT_CHARS ? `${text.slice(0, MAX_RESULT_CHARS)}\n…(truncated)` : text;
+}
@@ -0,0 +1,122 @@
+import { OLocalLLMSettings } from '../main';
+import { LLMClient } from './llmClient';
+import { DiscoveredModels, discoverModels, isModelAvailable } from './modelDiscovery';
+import { OllamaEmbeddings } from './ollamaEmbeddings';
+import { OpenAIEmbeddings } from './openAIEmbeddings';
+import { buildRequestHeaders } from './requestHeaders';
+
+/* Module Contract: Check that the configured server actually works --> Call the model listing, chat (buffered and streaming) and embedding endpoints with tiny probes, timing each one --> Results shown by ConnectionTestModal */
+
+export type CheckStatus = 'ok' | 'warning' | 'failed' | 'skipped';
+
+export interface ConnectionCheck {
+	name: string;
+	status: CheckStatus;
+	detail: string;
+	durationMs?: number;
+}
+
+// Cold starts load the model into memory first, which can take a while on local hardware
+const PROBE_TIMEOUT_MS = 60000;
+const PROBE_PROMPT = 'Reply with the single word OK.';
+
+/* Contract: Run all connection checks --> Reachability and model list, chat probe, streaming probe, embedding probe; later checks are skipped when the server is unreachable --> Report each check through onCheck as it finishes and return them all */
+export async function runConnectionTest(settings: OLocalLLMSettings, onCheck: (check: ConnectionCheck) => void = () => { }): Promise<ConnectionCheck[]> {
+	const checks: ConnectionCheck[] = [];
+	const report = (check: ConnectionCheck) => {
+		checks.push(check);
+		onCheck(check);
+	};
+
+	let models: DiscoveredModels = { chat: [], embedding: [] };
+	const reachability = await timed('Server reachable', async () => {
+		models = await discoverModels(settings);
+		return { detail: `${settings.serverAddress} listed ${models.chat.length} chat and ${models.embedding.length} embedding models` };
+	});
+	report(reachability);
+	if (reachability.status !== 'ok') {
+		for (const name of ['Models installed', 'Chat model', 'Streaming', 'Embedding model']) {
+			report({ name, status: 'skipped', detail: 'Server is not reachable' });
+		}
+		return checks;
+	}
+
+	const listed = [...models.chat, ...models.embedding];
+	report({
+		name: 'Models installed',
+		status: isModelAvailable(settings.llmModel, listed) && isModelAvailable(settings.embeddingModelName, listed) ? 'ok' : 'warning',
+		detail: [
+			`${settings.llmModel}: ${isModelAvailable(settings.llmModel, listed) ? 'listed' : 'not listed by the server'}`,
+			`${settings.embeddingModelName}: ${isModelAvailable(settings.embeddingModelName, listed) ? 'listed' : 'not listed by the server'}`,
+		].join(', '),
+	});
+
+	const client = new LLMClient(settings, { temperature: 0, maxTokens: 32 });
+	report(await timed('Chat model', async () => {
+		const result = await withTimeout(signal => client.chat({ messages: [{ role: 'user', content: PROBE_PROMPT }], stream: false }, { signal }));
+		if (!result.text.trim()) {
+			throw new Error(`${settings.llmModel} returned an empty reply`);
+		}
+		return { detail: `${settings.llmModel} answered: "${excerpt(result.text)}"` };
+	}));
+
+	report(await timed('Streaming', async () => {
+		let chunks = 0;
+		const result = await withTimeout(signal => client.chat({ messages: [{ role: 'user', content: PROBE_PROMPT }], stream: true }, {
+			onToken: () => chunks++,
+			signal,
+		}));
+		if (chunks === 0) {
+			return { status: 'warning', detail: result.text ? 'The reply arrived in one piece; streaming looks unsupported' : 'No streamed tokens received' };
+		}
+		return { detail: `Received the reply in ${chunks} chunks` };
+	}));
+
+	if (settings.providerType === 'mock') {
+		report({ name: 'Embedding model', status: 'skipped', detail: 'The mock provider embeds notes locally' });
+		return checks;
+	}
+	report(await timed('Embedding model', async () => {
+		const headers = buildRequestHeaders(settings);
+		const embeddings = settings.providerType === 'ollama'
+			? new OllamaEmbeddings(settings.serverAddress, settings.embeddingModelName, headers)
+			: new OpenAIEmbeddings(settings.openAIApiKey, settings.embeddingModelName, settings.serverAddress, headers);
+		const vector = await embeddings.embedQuery('connection test');
+		if (!Array.isArray(vector) || vector.length === 0) {
+			throw new Error(`${settings.embeddingModelName} returned no vector`);
+		}
+		return { detail: `${settings.embeddingModelName} returned ${vector.length}-dimensional vectors` };
+	}));
+
+	return checks;
+}
+
+async function timed(name: string, probe: () => Promise<{ detail: string; status?: CheckStatus }>): Promise<ConnectionCheck> {
+	const started = Date.now();
+	try {
+		const { detail, status } = await probe();
+		return { name, status: status || 'ok', detail, durationMs: Date.now() - started };
+	} catch (error) {
+		console.error(`Connection test "${name}" failed:`, error);
+		return { name, status: 'failed', detail: error instanceof Error ? error.message : String(error), durationMs: Date.now() - started };
+	}
+}
+
+async function withTimeout<T extends { cancelled: boolean }>(request: (signal: AbortSignal) => Promise<T>): Promise<T> {
+	const controller = new AbortController();
+	const timer = window.setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+	try {
+		const result = await request(controller.signal);
+		if (result.cancelled) {
+			throw new Error(`No reply within ${PROBE_TIMEOUT_MS / 1000} seconds`);
+		}
+		return result;
+	} finally {
+		window.clearTimeout(timer);
+	}
+}
+
+function excerpt(text: string): string {
+	const singleLine = text.trim().replace(/\s+/g, ' ');
+	return singleLine.length > 80 ? `${singleLine.slice(0, 80)}…` : singleLine;
+}
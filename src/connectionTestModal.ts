@@ -0,0 +1,79 @@
+import { App, Modal, Setting } from "obsidian";
+import { OLocalLLMSettings } from "../main";
+import { CheckStatus, ConnectionCheck, runConnectionTest } from "./connectionTest";
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+	ok: "✅",
+	warning: "⚠️",
+	failed: "❌",
+	skipped: "⏭️",
+};
+
+/* Class Contract: Show the results of a connection test --> Run the checks on open and list each one as it finishes, with a button to run them again --> Lets users see why the server or a model does not work */
+export class ConnectionTestModal extends Modal {
+	private running = false;
+	private resultsEl: HTMLElement;
+	private statusEl: HTMLElement;
+	private rerunButtonEl: HTMLButtonElement;
+
+	constructor(app: App, private settings: OLocalLLMSettings) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Connection test" });
+		contentEl.createEl("p", {
+			text: `${this.settings.providerType} server at ${this.settings.serverAddress}`,
+			cls: "setting-item-description"
+		});
+		this.resultsEl = contentEl.createDiv({ cls: "llm-connection-results" });
+		this.statusEl = contentEl.createEl("p", { cls: "llm-connection-status" });
+
+		new Setting(contentEl)
+			.addButton(btn => {
+				this.rerunButtonEl = btn.buttonEl;
+				btn.setButtonText("Run again").onClick(() => this.run());
+			})
+			.addButton(btn => btn
+				.setButtonText("Close")
+				.setCta()
+				.onClick(() => this.close()));
+
+		this.run();
+	}
+
+	private async run() {
+		if (this.running) return;
+		this.running = true;
+		this.rerunButtonEl.disabled = true;
+		this.resultsEl.empty();
+		this.statusEl.setText("Testing… the first chat request can take a while when the model has to be loaded");
+
+		const checks = await runConnectionTest(this.settings, check => this.renderCheck(check));
+
+		const failed = checks.filter(check => check.status === "failed").length;
+		const warnings = checks.filter(check => check.status === "warning").length;
+		this.statusEl.setText(failed > 0
+			? `${failed} check${failed === 1 ? "" : "s"} failed. Details are in the developer console.`
+			: warnings > 0 ? "Connected, with warnings." : "Everything works.");
+		this.rerunButtonEl.disabled = false;
+		this.running = false;
+	}
+
+	private renderCheck(check: ConnectionCheck) {
+		const row = this.resultsEl.createDiv({ cls: `llm-connection-check llm-connection-${check.status}` });
+		const header = row.createDiv({ cls: "llm-connection-check-header" });
+		header.createSpan({ text: `${STATUS_ICONS[check.status]} ${check.name}` });
+		if (check.durationMs !== undefined) {
+			header.createSpan({ text: `${check.durationMs} ms`, cls: "llm-connection-latency" });
+		}
+		row.createDiv({ text: check.detail, cls: "llm-connection-detail" });
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
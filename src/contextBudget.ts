@@ -0,0 +1,155 @@
+import { requestUrl } from "obsidian";
+import { OLocalLLMSettings } from "../main";
+import { ChatMessage } from "./llmClient";
+import { toOllamaBaseUrl } from "./ollamaChatProvider";
+import { buildRequestHeaders } from "./requestHeaders";
+
+/* Module Contract: Keep requests inside the model's context window --> Estimate tokens, resolve the context length per model (setting, Ollama num_ctx or server metadata) and drop old history that does not fit --> Used before text commands, custom prompts and chat send a request */
+
+// Used when neither the settings nor the server tell us the window size
+export const DEFAULT_CONTEXT_LENGTH = 4096;
+
+// Chat templates add role markers around every message
+const TOKENS_PER_MESSAGE = 4;
+
+// Rough cost of one image for common vision encoders (LLaVA uses 576, tiled encoders more)
+const TOKENS_PER_IMAGE = 768;
+
+// Detected context lengths per provider/server/model, kept for the session
+const detectedContextLengths = new Map<string, number | null>();
+
+export interface ContextBudget {
+	messages: ChatMessage[];   // Messages to send, with history trimmed if needed
+	contextLength: number;
+	promptTokens: number;      // Estimated tokens of the returned messages
+	availableTokens: number;   // Tokens left for the prompt after reserving room for the answer
+	droppedExchanges: number;  // History exchanges removed to make room
+	fits: boolean;             // False when system prompt + user message alone exceed the budget
+}
+
+/* Contract: Approximate the token count of a text without a model tokenizer --> Count ~4 characters per token for Latin text and one token per non-ASCII character --> Return a conservative estimate */
+export function estimateTokens(text: string): number {
+	if (!text) return 0;
+	let ascii = 0;
+	let other = 0;
+	for (let i = 0; i < text.length; i++) {
+		if (text.charCodeAt(i) < 128) {
+			ascii++;
+		} else {
+			other++;
+		}
+	}
+	return Math.ceil(ascii / 4) + other;
+}
+
+export function estimateMessagesTokens(messages: ChatMessage[]): number {
+	return messages.reduce((total, message) => total + TOKENS_PER_MESSAGE + estimateTokens(message.content)
+		+ (message.images?.length || 0) * TOKENS_PER_IMAGE, 0);
+}
+
+/* Contract: Find the context window for the configured model --> Prefer the per-model setting, then Ollama's num_ctx, then server metadata, then the default --> Return the context length in tokens */
+export async function resolveContextLength(settings: OLocalLLMSettings): Promise<number> {
+	const configured = settings.modelContextLengths?.[settings.llmModel];
+	if (configured && configured > 0) return configured;
+
+	// Ollama truncates at num_ctx, not at the model's trained maximum
+	if (settings.providerType === "ollama" && settings.ollamaNumCtx && settings.ollamaNumCtx > 0) {
+		return settings.ollamaNumCtx;
+	}
+
+	return (await detectContextLength(settings)) || DEFAULT_CONTEXT_LENGTH;
+}
+
+/* Contract: Ask the server for the model's context window --> Read /api/show (Ollama) or the /models entry (OpenAI-compatible) and cache the answer --> Return the length, or undefined when the server does not report it */
+export async function detectContextLength(settings: OLocalLLMSettings, refresh = false): Promise<number | undefined> {
+	const cacheKey = `${settings.providerType}|${settings.serverAddress}|${settings.llmModel}`;
+	if (!refresh && detectedContextLengths.has(cacheKey)) {
+		return detectedContextLengths.get(cacheKey) || undefined;
+	}
+
+	let detected: number | undefined;
+	if (settings.providerType === "mock") {
+		return undefined;
+	}
+	try {
+		const headers = buildRequestHeaders(settings);
+		detected = settings.providerType === "ollama"
+			? await detectOllamaContextLength(settings.serverAddress, settings.llmModel, headers)
+			: await detectOpenAIContextLength(settings.serverAddress, settings.llmModel, headers);
+	} catch (error) {
+		console.warn("Could not detect context length:", error);
+	}
+
+	detectedContextLengths.set(cacheKey, detected ?? null);
+	return detected;
+}
+
+async function detectOllamaContextLength(serverAddress: string, model: string, headers: Record<string, string>): Promise<number | undefined> {
+	const response = await requestUrl({
+		url: `${toOllamaBaseUrl(serverAddress)}/api/show`,
+		method: "POST",
+		headers: { "Content-Type": "application/json", ...headers },
+		body: JSON.stringify({ model }),
+		throw: false,
+	});
+	if (response.status !== 200) return undefined;
+
+	const data = response.json;
+	// A num_ctx baked into the Modelfile is what the server actually uses
+	const numCtx = /(?:^|\n)\s*num_ctx\s+(\d+)/.exec(data?.parameters || "");
+	if (numCtx) return parseInt(numCtx[1]);
+
+	const modelInfo = data?.model_info || {};
+	const key = Object.keys(modelInfo).find(k => k.endsWith(".context_length"));
+	const trained = key ? Number(modelInfo[key]) : undefined;
+	// Without num_ctx Ollama falls back to its own default window, which is usually smaller than the trained one
+	return trained ? Math.min(trained, DEFAULT_CONTEXT_LENGTH) : undefined;
+}
+
+async function detectOpenAIContextLength(serverAddress: string, model: string, headers: Record<string, string>): Promise<number | undefined> {
+	const response = await requestUrl({
+		url: `${serverAddress.replace(/\/+$/, "")}/models`,
+		method: "GET",
+		headers,
+		throw: false,
+	});
+	if (response.status !== 200) return undefined;
+
+	const entry = (response.json?.data || []).find((m: any) => m.id === model);
+	if (!entry) return undefined;
+
+	// Field names differ between LM Studio, vLLM, OpenRouter and friends
+	const length = entry.context_length ?? entry.max_context_length ?? entry.max_model_len ?? entry.context_window;
+	return typeof length === "number" && length > 0 ? length : undefined;
+}
+
+/* Contract: Fit a message list into the context window --> Reserve room for the answer, then drop the oldest history exchanges until the prompt fits --> Return the trimmed messages and whether they fit */
+export function fitMessagesToContext(messages: ChatMessage[], contextLength: number, maxOutputTokens: number): ContextBudget {
+	// Never let the answer reservation eat more than half of a small window
+	const reserved = Math.min(Math.max(maxOutputTokens, 0), Math.floor(contextLength / 2));
+	const availableTokens = contextLength - reserved;
+
+	// Layout from buildChatMessages: system, (user, assistant)*, user
+	const system = messages[0]?.role === "system" ? [messages[0]] : [];
+	const last = messages[messages.length - 1];
+	let history = messages.slice(system.length, messages.length - 1);
+
+	const assemble = () => [...system, ...history, last];
+	let promptTokens = estimateMessagesTokens(assemble());
+	let droppedExchanges = 0;
+
+	while (promptTokens > availableTokens && history.length > 0) {
+		history = history.slice(2);
+		droppedExchanges++;
+		promptTokens = estimateMessagesTokens(assemble());
+	}
+
+	return {
+		messages: assemble(),
+		contextLength,
+		promptTokens,
+		availableTokens,
+		droppedExchanges,
+		fits: promptTokens <= availableTokens,
+	};
+}
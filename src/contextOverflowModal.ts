@@ -0,0 +1,64 @@
+import { App, Modal, Setting } from "obsidian";
+import { ContextBudget } from "./contextBudget";
+
+export type ContextOverflowChoice = "send" | "chunk" | "cancel";
+
+/* Class Contract: Warn that a prompt exceeds the context window --> Show estimated prompt size against the budget and let the user send anyway, process in chunks or cancel --> Resolve the user's choice */
+export class ContextOverflowModal extends Modal {
+	private choice: ContextOverflowChoice = "cancel";
+
+	constructor(app: App, private budget: ContextBudget, private allowChunking: boolean, private onChoose: (choice: ContextOverflowChoice) => void) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Text too long for the model" });
+		contentEl.createEl("p", {
+			text: `The request is about ${this.budget.promptTokens} tokens, but only ${this.budget.availableTokens} of the model's ${this.budget.contextLength}-token context are available after reserving room for the answer. The server will probably cut off part of the text or reject the request.`
+		});
+		if (this.budget.droppedExchanges > 0) {
+			contentEl.createEl("p", { text: "Conversation history has already been left out." });
+		}
+		contentEl.createEl("p", {
+			text: this.allowChunking
+				? "Process the text in chunks (each part separately, then combined), select less text, or raise the context length for this model in the plugin settings."
+				: "Select less text, or raise the context length for this model in the plugin settings.",
+			cls: "setting-item-description"
+		});
+
+		const buttons = new Setting(contentEl);
+		if (this.allowChunking) {
+			buttons.addButton(btn => btn
+				.setButtonText("Process in chunks")
+				.setCta()
+				.onClick(() => this.choose("chunk")));
+		}
+		buttons
+			.addButton(btn => btn
+				.setButtonText("Send anyway")
+				.setWarning()
+				.onClick(() => this.choose("send")))
+			.addButton(btn => {
+				btn.setButtonText("Cancel").onClick(() => this.choose("cancel"));
+				if (!this.allowChunking) btn.setCta();
+			});
+	}
+
+	private choose(choice: ContextOverflowChoice) {
+		this.choice = choice;
+		this.close();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onChoose(this.choice);
+	}
+}
+
+/* Contract: Ask how to handle an oversized prompt --> Open ContextOverflowModal, offering chunked processing when the caller supports it --> Resolve with the chosen action ("cancel" when dismissed) */
+export function confirmContextOverflow(app: App, budget: ContextBudget, allowChunking = false): Promise<ContextOverflowChoice> {
+	return new Promise(resolve => new ContextOverflowModal(app, budget, allowChunking, resolve).open());
+}
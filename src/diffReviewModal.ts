@@ -0,0 +1,127 @@
+import { App, Modal, Setting } from "obsidian";
+import { DiffSegment, applySegments, diffWords } from "./wordDiff";
+
+type DiffLayout = "inline" | "side-by-side";
+
+// Accepting can still give back the original, e.g. when the rewrite is identical or every change was dropped
+export type ReviewDecision = { accepted: true; text: string } | { accepted: false };
+
+/* Contract: Let the user review a rewrite --> Open the diff modal and wait until it is applied or dismissed --> Resolve with the accepted text, or a rejection */
+export function reviewChanges(app: App, original: string, replacement: string): Promise<ReviewDecision> {
+	return new Promise(resolve => new DiffReviewModal(app, original, replacement, resolve).open());
+}
+
+/* Class Contract: Word diff of a selection and its rewrite --> Show changes inline or side by side, click a change to keep or drop it --> Hand back the decision once; closing without applying rejects */
+export class DiffReviewModal extends Modal {
+	private segments: DiffSegment[];
+	private accepted: boolean[];
+	private layout: DiffLayout = "inline";
+	private resolved = false;
+	private diffEl: HTMLElement;
+	private summaryEl: HTMLElement;
+
+	constructor(app: App, original: string, replacement: string, private onResolve: (decision: ReviewDecision) => void) {
+		super(app);
+		this.segments = diffWords(original, replacement);
+		this.accepted = this.segments.filter(segment => segment.type === "change").map(() => true);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass("llm-diff-modal");
+
+		contentEl.createEl("h2", { text: "Review changes" });
+		this.summaryEl = contentEl.createEl("p", { cls: "setting-item-description" });
+
+		new Setting(contentEl)
+			.setName("Layout")
+			.setDesc("Click a change to keep or drop it")
+			.addDropdown(dropdown => dropdown
+				.addOption("inline", "Inline")
+				.addOption("side-by-side", "Side by side")
+				.setValue(this.layout)
+				.onChange(value => {
+					this.layout = value as DiffLayout;
+					this.renderDiff();
+				}));
+
+		this.diffEl = contentEl.createDiv({ cls: "llm-diff-container" });
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText("Reject")
+				.onClick(() => this.resolve({ accepted: false })))
+			.addButton(btn => btn
+				.setButtonText("Apply selected")
+				.onClick(() => this.resolve({ accepted: true, text: applySegments(this.segments, this.accepted) })))
+			.addButton(btn => btn
+				.setButtonText("Accept all")
+				.setCta()
+				.onClick(() => this.resolve({ accepted: true, text: applySegments(this.segments, this.accepted.map(() => true)) })));
+
+		this.renderDiff();
+	}
+
+	private renderDiff() {
+		const total = this.accepted.length;
+		const kept = this.accepted.filter(Boolean).length;
+		this.summaryEl.setText(total === 0
+			? "The response is identical to the selection."
+			: `${kept} of ${total} change${total === 1 ? "" : "s"} selected`);
+
+		this.diffEl.empty();
+		if (this.layout === "inline") {
+			this.renderColumn(this.diffEl.createDiv({ cls: "llm-diff-text" }), "inline");
+			return;
+		}
+		const columns = this.diffEl.createDiv({ cls: "llm-diff-columns" });
+		this.renderColumn(columns.createDiv({ cls: "llm-diff-text" }), "original");
+		this.renderColumn(columns.createDiv({ cls: "llm-diff-text" }), "result");
+	}
+
+	// inline shows both sides of each change; original and result show one side for the side-by-side layout
+	private renderColumn(container: HTMLElement, side: "inline" | "original" | "result") {
+		let changeIndex = 0;
+		for (const segment of this.segments) {
+			if (segment.type === "equal") {
+				container.appendText(segment.text);
+				continue;
+			}
+			const index = changeIndex++;
+			const accepted = this.accepted[index];
+			const hunk = container.createSpan({
+				cls: `llm-diff-hunk ${accepted ? "is-accepted" : "is-rejected"}`,
+				attr: { "aria-label": accepted ? "Click to keep the original" : "Click to use the rewrite" },
+			});
+			if (side === "result") {
+				// The result column reads as the text that will be written
+				if (accepted) {
+					hunk.createEl("ins", { text: segment.replacement });
+				} else {
+					hunk.appendText(segment.original);
+				}
+			} else {
+				if (segment.original) hunk.createEl("del", { text: segment.original });
+				if (side === "inline" && segment.replacement) hunk.createEl("ins", { text: segment.replacement });
+			}
+			hunk.addEventListener("click", () => {
+				this.accepted[index] = !this.accepted[index];
+				this.renderDiff();
+			});
+		}
+	}
+
+	private resolve(decision: ReviewDecision) {
+		if (this.resolved) return;
+		this.resolved = true;
+		this.onResolve(decision);
+		this.close();
+	}
+
+	onClose() {
+		// Escape or clicking outside counts as rejecting
+		this.resolve({ accepted: false });
+		this.contentEl.empty();
+	}
+}
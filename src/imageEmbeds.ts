@@ -0,0 +1,75 @@
+import { App, TFile, arrayBufferToBase64 } from "obsidian";
+import { OLocalLLMSettings } from "../main";
+import { ChatMessage, MessageImage } from "./llmClient";
+import { safeDecode, wikiLinkPattern } from "./wikiLinks";
+
+/* Module Contract: Send images embedded in the selection to vision models --> Find ![[...]] and ![](...) image embeds, read them through the vault adapter and base64-encode them --> Attached to the user message by generateIntoEditor and the image commands */
+
+const IMAGE_MIME_TYPES: { [extension: string]: string } = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	gif: "image/gif",
+	webp: "image/webp",
+	bmp: "image/bmp",
+};
+
+// Servers reject or choke on very large uploads; phone photos are usually well below this
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+const WIKI_EMBED_PATTERN = wikiLinkPattern(true);
+const MARKDOWN_EMBED_PATTERN = /!\[[^\]]*\]\(\s*<?([^)>\s]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+/* Contract: Check whether the configured model accepts images --> Look the model name up in settings.visionModels --> Return true for models the user marked as vision-capable */
+export function isVisionModel(settings: OLocalLLMSettings): boolean {
+	return (settings.visionModels || []).includes(settings.llmModel);
+}
+
+/* Contract: Find image embeds in markdown --> Match wiki and markdown embeds with an image extension, skipping remote URLs --> Return link paths in order of appearance, without duplicates */
+export function findImageEmbeds(text: string): string[] {
+	const links: { index: number; link: string }[] = [];
+	for (const pattern of [WIKI_EMBED_PATTERN, MARKDOWN_EMBED_PATTERN]) {
+		pattern.lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = pattern.exec(text)) !== null) {
+			const link = safeDecode(match[1].trim());
+			// Remote images would have to be downloaded first; Ollama only accepts inline data
+			if (/^[a-z]+:\/\//i.test(link)) continue;
+			if (imageMimeType(link)) links.push({ index: match.index, link });
+		}
+	}
+	return [...new Set(links.sort((a, b) => a.index - b.index).map(entry => entry.link))];
+}
+
+/* Contract: Load the images embedded in a text --> Resolve each embed like Obsidian does (relative to the note), read the bytes and base64-encode them --> Return the images that could be read */
+export async function resolveImageEmbeds(app: App, text: string, sourcePath: string): Promise<MessageImage[]> {
+	const images: MessageImage[] = [];
+	for (const link of findImageEmbeds(text)) {
+		const file = app.metadataCache.getFirstLinkpathDest(link, sourcePath);
+		if (!(file instanceof TFile)) {
+			console.warn(`Image embed not found in vault: ${link}`);
+			continue;
+		}
+		if (file.stat.size > MAX_IMAGE_BYTES) {
+			console.warn(`Skipping ${file.path}: ${file.stat.size} bytes is larger than the ${MAX_IMAGE_BYTES} byte limit`);
+			continue;
+		}
+		const data = await app.vault.adapter.readBinary(file.path);
+		images.push({ mimeType: imageMimeType(file.path)!, data: arrayBufferToBase64(data), name: file.name });
+	}
+	return images;
+}
+
+/* Contract: Attach images to a request --> Copy the messages and add the images to the last user message --> Return the new message list */
+export function attachImages(messages: ChatMessage[], images: MessageImage[]): ChatMessage[] {
+	const lastUser = messages.map(message => message.role).lastIndexOf("user");
+	if (lastUser === -1 || images.length === 0) return messages;
+	return messages.map((message, index) => index === lastUser
+		? { ...message, images: [...(message.images || []), ...images] }
+		: message);
+}
+
+function imageMimeType(path: string): string | undefined {
+	const extension = path.split(".").pop()?.toLowerCase() || "";
+	return IMAGE_MIME_TYPES[extension];
+}
@@ -0,0 +1,164 @@
+import { EditorState, Extension, Prec, StateEffect, StateField } from "@codemirror/state";
+import { Decoration, EditorView, ViewPlugin, ViewUpdate, WidgetType, keymap } from "@codemirror/view";
+
+/* Module Contract: "AI continue" while typing --> After a pause, ask the model to continue the text before the cursor and show the answer as dimmed ghost text --> Tab inserts it, Esc or any edit dismisses it */
+
+export interface ContinuationSource {
+	enabled(): boolean;  // Automatic suggestions after typing pauses; the trigger command works regardless
+	delayMs(): number;   // Pause after the last edit before a request is sent
+	complete(prefix: string, signal: AbortSignal): Promise<string>;
+}
+
+// Characters of context sent to the model; longer notes only send the end
+const MAX_PREFIX_LENGTH = 4000;
+
+interface Suggestion {
+	pos: number;
+	text: string;
+}
+
+const setSuggestion = StateEffect.define<Suggestion | null>();
+const requestSuggestion = StateEffect.define<null>();
+
+const suggestionField = StateField.define<Suggestion | null>({
+	create: () => null,
+	update(suggestion, tr) {
+		for (const effect of tr.effects) {
+			if (effect.is(setSuggestion)) return effect.value;
+		}
+		// Typing or moving the cursor makes the suggestion stale
+		return tr.docChanged || tr.selection ? null : suggestion;
+	},
+	provide: field => EditorView.decorations.from(field, suggestion => suggestion
+		? Decoration.set([Decoration.widget({ widget: new GhostTextWidget(suggestion.text), side: 1 }).range(suggestion.pos)])
+		: Decoration.none),
+});
+
+class GhostTextWidget extends WidgetType {
+	constructor(private text: string) {
+		super();
+	}
+
+	eq(other: GhostTextWidget) {
+		return other.text === this.text;
+	}
+
+	toDOM() {
+		const span = document.createElement("span");
+		span.className = "llm-ghost-text";
+		span.textContent = this.text;
+		return span;
+	}
+
+	ignoreEvent() {
+		return true;
+	}
+}
+
+/* Contract: Insert the shown suggestion --> Write it at its position and put the cursor after it --> Return false when there is none, so Tab keeps indenting */
+function acceptSuggestion(view: EditorView): boolean {
+	const suggestion = view.state.field(suggestionField, false);
+	if (!suggestion) return false;
+	view.dispatch({
+		changes: { from: suggestion.pos, insert: suggestion.text },
+		selection: { anchor: suggestion.pos + suggestion.text.length },
+		userEvent: "input.complete",
+	});
+	return true;
+}
+
+function dismissSuggestion(view: EditorView): boolean {
+	if (!view.state.field(suggestionField, false)) return false;
+	view.dispatch({ effects: setSuggestion.of(null) });
+	return true;
+}
+
+/* Contract: Ask for a continuation now --> Skip the debounce and the enabled setting --> Used by the "Continue at cursor" command */
+export function triggerInlineContinuation(view: EditorView) {
+	view.dispatch({ effects: requestSuggestion.of(null) });
+}
+
+// Suggest only at a plain cursor that ends its line or is followed by whitespace
+function canSuggest(state: EditorState): boolean {
+	const selection = state.selection.main;
+	if (!selection.empty) return false;
+	const next = state.doc.sliceString(selection.head, selection.head + 1);
+	return next === "" || /\s/.test(next);
+}
+
+/* Contract: Build the editor extension --> Debounce edits, cancel the request that belongs to an older document, show the answer if the cursor has not moved --> Registered once with registerEditorExtension */
+export function inlineContinuationExtension(source: ContinuationSource): Extension {
+	const requester = ViewPlugin.fromClass(class {
+		private timer: number | null = null;
+		private controller: AbortController | null = null;
+
+		constructor(private view: EditorView) { }
+
+		update(update: ViewUpdate) {
+			const requested = update.transactions.some(tr => tr.effects.some(effect => effect.is(requestSuggestion)));
+			if (requested) {
+				this.schedule(0);
+			} else if (update.docChanged || update.selectionSet) {
+				this.cancel();
+				const typed = update.transactions.some(tr => tr.isUserEvent("input.type") || tr.isUserEvent("delete"));
+				if (typed && source.enabled()) {
+					this.schedule(source.delayMs());
+				}
+			}
+		}
+
+		private schedule(delay: number) {
+			this.cancel();
+			this.timer = window.setTimeout(() => {
+				this.timer = null;
+				this.request();
+			}, delay);
+		}
+
+		private async request() {
+			const state = this.view.state;
+			if (!canSuggest(state)) return;
+			const pos = state.selection.main.head;
+			const prefix = state.doc.sliceString(Math.max(0, pos - MAX_PREFIX_LENGTH), pos);
+			if (prefix.trim() === "") return;
+
+			const controller = new AbortController();
+			this.controller = controller;
+			try {
+				const text = await source.complete(prefix, controller.signal);
+				// Any edit since the request was sent makes the answer stale
+				if (controller.signal.aborted || this.view.state.doc !== state.doc || this.view.state.selection.main.head !== pos || !text) return;
+				this.view.dispatch({ effects: setSuggestion.of({ pos, text }) });
+			} catch (error) {
+				if (!controller.signal.aborted) {
+					console.error("Inline continuation failed:", error);
+				}
+			} finally {
+				if (this.controller === controller) this.controller = null;
+			}
+		}
+
+		private cancel() {
+			if (this.timer !== null) {
+				window.clearTimeout(this.timer);
+				this.timer = null;
+			}
+			this.controller?.abort();
+			this.controller = null;
+		}
+
+		destroy() {
+			this.cancel();
+		}
+	});
+
+	return [
+		suggestionField,
+		requester,
+		// Ahead of Obsidian's Tab and Escape handling; both keys fall through when no suggestion is shown
+		Prec.highest(keymap.of([
+			{ key: "Tab", run: acceptSuggestion },
+			{ key: "Escape", run: dismissSuggestion },
+		])),
+	];
+}
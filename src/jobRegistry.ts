@@ -0,0 +1,206 @@
+/* Module Contract: Queue and track LLM work --> Run jobs by priority under a concurrency limit, give every job its own AbortController, keep a short history of finished jobs --> Lets commands, the status bar and the jobs panel cancel, inspect and retry generations */
+
+export type JobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+export type JobPriority = "high" | "normal" | "low";
+export type JobKind = "prompt" | "chat" | "tagging" | "indexing";
+
+export const JOB_KIND_NAMES: Record<JobKind, string> = {
+	prompt: "Prompts and search summaries",
+	chat: "Chat windows",
+	tagging: "Tag generation",
+	indexing: "Note indexing",
+};
+
+export const JOB_PRIORITY_NAMES: Record<JobPriority, string> = {
+	high: "High",
+	normal: "Normal",
+	low: "Low",
+};
+
+// Interactive chat jumps the queue, bulk indexing waits for everything else
+export const DEFAULT_JOB_PRIORITIES: Record<JobKind, JobPriority> = {
+	prompt: "normal",
+	chat: "high",
+	tagging: "normal",
+	indexing: "low",
+};
+
+const PRIORITY_ORDER: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 };
+const MAX_FINISHED_JOBS = 20;
+
+export interface LLMJob {
+	id: string;
+	label: string;     // Short description shown in the status bar menu and jobs panel
+	kind: JobKind;
+	priority: JobPriority;
+	status: JobStatus;
+	queuedAt: number;
+	startedAt?: number;
+	finishedAt?: number;
+	tokens: number;    // Generated tokens, updated by the task while it runs
+	progress?: string; // Short progress note for multi-step jobs, e.g. "part 2/5"
+	error?: string;
+	controller: AbortController;
+	retry?: () => void; // Re-runs the original command, when it can be repeated
+}
+
+export interface JobOptions {
+	kind: JobKind;
+	retry?: () => void;
+}
+
+export interface JobQueueConfig {
+	concurrency?: number;
+	priorities?: Partial<Record<JobKind, JobPriority>>;
+}
+
+/* Contract: Recognise a cancelled request --> Match errors (including DOMException) named "AbortError" --> Return true when the error only means the job was aborted */
+export function isAbortError(error: unknown): boolean {
+	return (error as { name?: string } | null)?.name === "AbortError";
+}
+
+/* Class Contract: Priority queue of LLM jobs --> Start queued jobs while running < concurrency, abort on request, move settled jobs to history --> Single source of truth for what the plugin is generating */
+export class JobRegistry {
+	private jobs = new Map<string, LLMJob>(); // Queued and running jobs
+	private waiting: { job: LLMJob; start: () => void }[] = [];
+	private finished: LLMJob[] = [];
+	private listeners = new Set<() => void>();
+	private nextId = 1;
+	private concurrency = 1;
+	private priorities: Record<JobKind, JobPriority> = { ...DEFAULT_JOB_PRIORITIES };
+
+	/* Method Contract: Apply queue settings --> Update concurrency limit and per-kind priorities --> Start more jobs if the limit went up */
+	configure(config: JobQueueConfig) {
+		this.concurrency = Math.max(1, Math.floor(config.concurrency || 1));
+		this.priorities = { ...DEFAULT_JOB_PRIORITIES, ...(config.priorities || {}) };
+		this.pump();
+	}
+
+	/* Method Contract: Run a task as a queued job --> Wait for a free slot, hand the task an AbortSignal and its job record, record the outcome --> Return the task's result or rethrow its error */
+	async run<T>(label: string, task: (signal: AbortSignal, job: LLMJob) => Promise<T>, options: JobOptions): Promise<T> {
+		const job: LLMJob = {
+			id: `job_${this.nextId++}`,
+			label,
+			kind: options.kind,
+			priority: this.priorities[options.kind],
+			status: "queued",
+			queuedAt: Date.now(),
+			tokens: 0,
+			controller: new AbortController(),
+			retry: options.retry,
+		};
+		this.jobs.set(job.id, job);
+
+		await new Promise<void>(resolve => {
+			this.waiting.push({ job, start: resolve });
+			// Stable sort keeps FIFO order within a priority
+			this.waiting.sort((a, b) => PRIORITY_ORDER[a.job.priority] - PRIORITY_ORDER[b.job.priority]);
+			this.notify();
+			this.pump();
+		});
+
+		try {
+			// A job cancelled while queued still runs its task with the aborted signal so callers see a normal cancellation
+			const result = await task(job.controller.signal, job);
+			this.settle(job, job.controller.signal.aborted ? "cancelled" : "done");
+			return result;
+		} catch (error) {
+			const cancelled = job.controller.signal.aborted || isAbortError(error);
+			this.settle(job, cancelled ? "cancelled" : "failed", cancelled ? undefined : error);
+			throw error;
+		}
+	}
+
+	/* Method Contract: Cancel one job --> Abort its controller, releasing it from the queue if it has not started --> Return false when the job already finished */
+	cancel(jobId: string): boolean {
+		const job = this.jobs.get(jobId);
+		if (!job || job.controller.signal.aborted) return false;
+		job.controller.abort();
+
+		const index = this.waiting.findIndex(entry => entry.job.id === jobId);
+		if (index !== -1) {
+			const [entry] = this.waiting.splice(index, 1);
+			entry.start();
+		}
+		this.notify();
+		return true;
+	}
+
+	/* Method Contract: Cancel every queued and running job --> Abort all controllers --> Return the number of cancelled jobs */
+	cancelAll(): number {
+		return [...this.jobs.keys()].filter(id => this.cancel(id)).length;
+	}
+
+	/* Method Contract: Report progress of a multi-step job --> Store the progress note and notify listeners --> Shown in the status bar and jobs panel */
+	setProgress(job: LLMJob, progress: string | undefined) {
+		job.progress = progress;
+		this.notify();
+	}
+
+	/* Method Contract: Repeat a finished job --> Call its retry callback, which queues a fresh job --> Return false when the job cannot be retried */
+	retry(jobId: string): boolean {
+		const job = this.finished.find(j => j.id === jobId);
+		if (!job?.retry) return false;
+		job.retry();
+		return true;
+	}
+
+	clearFinished() {
+		this.finished = [];
+		this.notify();
+	}
+
+	/* Method Contract: List unfinished jobs --> Running jobs first, then the queue in start order --> Return a snapshot for display */
+	list(): LLMJob[] {
+		const running = [...this.jobs.values()].filter(job => job.status === "running");
+		return [...running, ...this.waiting.map(entry => entry.job)];
+	}
+
+	listFinished(): LLMJob[] {
+		return [...this.finished];
+	}
+
+	get size(): number {
+		return this.jobs.size;
+	}
+
+	get runningCount(): number {
+		return [...this.jobs.values()].filter(job => job.status === "running").length;
+	}
+
+	get queuedCount(): number {
+		return this.waiting.length;
+	}
+
+	/* Method Contract: Subscribe to queue changes --> Store the listener --> Return an unsubscribe function */
+	onChange(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	private pump() {
+		while (this.waiting.length > 0 && this.runningCount < this.concurrency) {
+			const { job, start } = this.waiting.shift()!;
+			job.status = "running";
+			job.startedAt = Date.now();
+			start();
+		}
+		this.notify();
+	}
+
+	private settle(job: LLMJob, status: JobStatus, error?: unknown) {
+		job.status = status;
+		job.finishedAt = Date.now();
+		if (error) {
+			job.error = error instanceof Error ? error.message : String(error);
+		}
+		this.jobs.delete(job.id);
+		this.finished.unshift(job);
+		this.finished.splice(MAX_FINISHED_JOBS);
+		this.pump();
+	}
+
+	private notify() {
+		this.listeners.forEach(listener => listener());
+	}
+}
@@ -0,0 +1,113 @@
+import { ItemView, WorkspaceLeaf, setIcon } from "obsidian";
+import { JobRegistry, LLMJob } from "./jobRegistry";
+
+/* Module Contract: Sidebar panel for the job queue --> Render running, queued and finished jobs with elapsed time and tokens, offer cancel/retry --> Visibility and control over all LLM work */
+
+export const JOBS_VIEW_TYPE = "llm-helper-jobs";
+
+const STATUS_LABELS: Record<LLMJob["status"], string> = {
+	queued: "Queued",
+	running: "Running",
+	done: "Done",
+	failed: "Failed",
+	cancelled: "Cancelled",
+};
+
+function formatElapsed(job: LLMJob): string {
+	const start = job.startedAt ?? job.queuedAt;
+	const end = job.finishedAt ?? Date.now();
+	const seconds = Math.max(0, Math.round((end - start) / 1000));
+	return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/* Class Contract: Jobs panel view --> Re-render on queue changes and once a second while jobs are active --> Lists jobs with cancel/retry buttons */
+export class JobsView extends ItemView {
+	private unsubscribe: (() => void) | null = null;
+
+	constructor(leaf: WorkspaceLeaf, private jobs: JobRegistry) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return JOBS_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "LLM jobs";
+	}
+
+	getIcon(): string {
+		return "list-checks";
+	}
+
+	async onOpen() {
+		this.unsubscribe = this.jobs.onChange(() => this.render());
+		// Keep elapsed times ticking while something is queued or running
+		this.registerInterval(window.setInterval(() => {
+			if (this.jobs.size > 0) this.render();
+		}, 1000));
+		this.render();
+	}
+
+	async onClose() {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+	}
+
+	private render() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("llm-jobs-view");
+
+		const header = container.createDiv({ cls: "llm-jobs-header" });
+		header.createEl("h4", { text: `Running ${this.jobs.runningCount} · Queued ${this.jobs.queuedCount}` });
+		const headerActions = header.createDiv({ cls: "llm-jobs-actions" });
+		this.addIconButton(headerActions, "x-circle", "Cancel all", () => this.jobs.cancelAll(), this.jobs.size === 0);
+		this.addIconButton(headerActions, "trash", "Clear finished", () => this.jobs.clearFinished(), this.jobs.listFinished().length === 0);
+
+		this.renderSection(container, "Active", this.jobs.list(), "No jobs queued or running");
+		this.renderSection(container, "Finished", this.jobs.listFinished(), "No finished jobs yet");
+	}
+
+	private renderSection(container: HTMLElement, title: string, jobs: LLMJob[], emptyText: string) {
+		container.createEl("h5", { text: title, cls: "llm-jobs-section-title" });
+		if (jobs.length === 0) {
+			container.createDiv({ text: emptyText, cls: "llm-jobs-empty" });
+			return;
+		}
+
+		const list = container.createDiv({ cls: "llm-jobs-list" });
+		jobs.forEach(job => this.renderJob(list, job));
+	}
+
+	private renderJob(list: HTMLElement, job: LLMJob) {
+		const row = list.createDiv({ cls: `llm-job llm-job-${job.status}` });
+		const info = row.createDiv({ cls: "llm-job-info" });
+		info.createDiv({ text: job.label, cls: "llm-job-label" });
+
+		const details = [
+			job.progress ? `${STATUS_LABELS[job.status]} (${job.progress})` : STATUS_LABELS[job.status],
+			formatElapsed(job),
+			`${job.tokens} tokens`,
+			`${job.priority} priority`,
+		];
+		info.createDiv({ text: details.join(" · "), cls: "llm-job-details" });
+		if (job.error) {
+			info.createDiv({ text: job.error, cls: "llm-job-error" });
+		}
+
+		const actions = row.createDiv({ cls: "llm-jobs-actions" });
+		if (job.status === "queued" || job.status === "running") {
+			this.addIconButton(actions, "x", "Cancel", () => this.jobs.cancel(job.id));
+		} else if (job.retry) {
+			this.addIconButton(actions, "rotate-ccw", "Retry", () => this.jobs.retry(job.id));
+		}
+	}
+
+	private addIconButton(container: HTMLElement, icon: string, label: string, onClick: () => void, disabled = false) {
+		const button = container.createEl("button", { cls: "clickable-icon", attr: { "aria-label": label } });
+		setIcon(button, icon);
+		button.disabled = disabled;
+		button.addEventListener("click", onClick);
+	}
+}
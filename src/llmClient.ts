@@ -0,0 +1,504 @@
+import { requestUrl } from "obsidian";
+import { OLocalLLMSettings } from "../main";
+import { OllamaChatProvider } from "./ollamaChatProvider";
+import { MockChatProvider } from "./mockChatProvider";
+import { SSE_DONE_MARKER, readEventStream } from "./streamParser";
+import { buildRequestHeaders } from "./requestHeaders";
+import { JSONSchema } from "./structuredOutput";
+
+/* Module Contract: Single entry point for chat completions --> Build messages, send streaming/non-streaming requests, normalise content/reasoning, surface errors and honour cancellation --> Used by text commands, custom prompts, chat modal and auto tagger */
+
+export type ChatRole = "system" | "user" | "assistant" | "tool";
+
+export interface ChatMessage {
+	role: ChatRole;
+	content: string;
+	toolCalls?: ToolCall[]; // Assistant turn that asked for tools
+	toolCallId?: string;    // Tool result: id of the call it answers
+	toolName?: string;      // Tool result: name of the tool that produced it
+	images?: MessageImage[]; // Sent to vision models as image parts (OpenAI) or "images" (Ollama)
+}
+
+export interface MessageImage {
+	mimeType: string;
+	data: string;  // Base64 without the data: URL prefix
+	name?: string; // File name, for logs and previews
+}
+
+/* Contract: Describe a function the model may call --> Name, purpose and JSON schema of the arguments --> Sent as OpenAI-style "tools" to both providers */
+export interface ToolDefinition {
+	name: string;
+	description: string;
+	parameters: JSONSchema;
+}
+
+export interface ToolCall {
+	id: string;
+	name: string;
+	arguments: Record<string, unknown>;
+}
+
+export interface ChatHistoryEntry {
+	prompt: string;
+	response: string;
+}
+
+/* Contract: Optional sampling overrides --> Carry values a custom prompt or command sets instead of the server/model defaults --> Mapped to Ollama options or OpenAI-compatible body fields by the providers */
+export interface SamplingOptions {
+	temperature?: number;   // Defaults to settings.temperature
+	maxTokens?: number;     // Defaults to settings.maxTokens
+	topP?: number;
+	topK?: number;
+	minP?: number;
+	repeatPenalty?: number;
+	seed?: number;
+	stop?: string[];
+}
+
+export interface ChatRequest extends SamplingOptions {
+	messages: ChatMessage[];
+	stream?: boolean;      // Defaults to settings.stream
+	jsonSchema?: JSONSchema; // Constrains the reply to JSON matching the schema, see requestStructured
+	tools?: ToolDefinition[]; // Functions the model may call; requests with tools are never streamed
+}
+
+export interface ChatOptions {
+	onToken?: (token: string) => void; // Called for every streamed delta
+	signal?: AbortSignal;              // Aborts the underlying HTTP request (see JobRegistry)
+}
+
+export interface ChatResult {
+	text: string;      // Content, or reasoning when the model returned no content
+	content: string;
+	reasoning: string;
+	cancelled: boolean;
+	completionTokens?: number; // Generated token count when the server reports usage
+	toolCalls?: ToolCall[];    // Tools the model wants to run before it answers
+}
+
+export class LLMClientError extends Error {
+	constructor(message: string, public status?: number, public body?: string) {
+		super(message);
+		this.name = "LLMClientError";
+	}
+}
+
+/* Contract: Assemble an OpenAI-style message list --> Prepend system prompt, replay the last maxHistory exchanges, append user message --> Return messages ready for LLMClient.chat */
+export function buildChatMessages(
+	systemPrompt: string,
+	history: ChatHistoryEntry[],
+	maxHistory: number,
+	userContent: string
+): ChatMessage[] {
+	const replayed = maxHistory > 0 ? history.slice(-maxHistory) : [];
+	const messages: ChatMessage[] = [{ role: "system", content: systemPrompt }];
+	for (const entry of replayed) {
+		messages.push({ role: "user", content: entry.prompt });
+		messages.push({ role: "assistant", content: entry.response });
+	}
+	messages.push({ role: "user", content: userContent });
+	return messages;
+}
+
+/* Contract: Pick the usable answer from a message/delta --> Prefer content, fall back to reasoning when content is blank --> Return the text to show the user */
+export function pickResponseText(content: string, reasoning: string): string {
+	if ((!content || content.trim().length === 0) && reasoning && reasoning.trim().length > 0) {
+		return reasoning;
+	}
+	return content;
+}
+
+export interface JSONResponse {
+	status: number;
+	text: string;
+	json: any; // undefined when the body is not valid JSON
+}
+
+/* Contract: POST a JSON body and wait for the whole reply --> Use requestUrl, which is not bound by CORS, and stop waiting when the signal aborts --> Return status, raw text and parsed JSON, or reject with an AbortError */
+export async function postJSON(url: string, body: object, signal?: AbortSignal, headers: Record<string, string> = {}): Promise<JSONResponse> {
+	const request = requestUrl({
+		url,
+		method: "POST",
+		headers: { "Content-Type": "application/json", ...headers },
+		body: JSON.stringify(body),
+		throw: false,
+	});
+	// requestUrl cannot be torn down; an aborted request keeps running and its late reply is ignored
+	const response = await raceAbort(Promise.resolve(request), signal);
+	const status = response.status;
+	const text = response.text;
+
+	let json: any;
+	try {
+		json = JSON.parse(text);
+	} catch (error) {
+		json = undefined;
+	}
+	return { status, text, json };
+}
+
+/* Contract: Wait for a promise unless the signal aborts first --> Reject with an AbortError on abort and drop the listener once settled --> Return the promise's result */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+	if (!signal) return promise;
+	if (signal.aborted) return Promise.reject(new DOMException("Request cancelled", "AbortError"));
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => reject(new DOMException("Request cancelled", "AbortError"));
+		signal.addEventListener("abort", onAbort, { once: true });
+		promise.then(
+			value => {
+				signal.removeEventListener("abort", onAbort);
+				resolve(value);
+			},
+			error => {
+				signal.removeEventListener("abort", onAbort);
+				reject(error);
+			});
+	});
+}
+
+/* Contract: Fully resolved request handed to a provider --> Carry model, messages and sampling values after settings defaults are applied --> Consumed by ChatProvider implementations */
+export interface ProviderChatRequest extends SamplingOptions {
+	model: string;
+	messages: ChatMessage[];
+	temperature: number;
+	maxTokens: number;
+	stream: boolean;
+	jsonSchema?: JSONSchema;
+	tools?: ToolDefinition[];
+}
+
+export interface ChatProvider {
+	chat(request: ProviderChatRequest, options: ChatOptions): Promise<ChatResult>;
+}
+
+/* Contract: Choose the chat transport for the configured provider --> Map providerType to a ChatProvider with its provider-specific options and auth headers --> Return provider used by LLMClient */
+export function createChatProvider(settings: OLocalLLMSettings): ChatProvider {
+	const headers = buildRequestHeaders(settings);
+	if (settings.providerType === "ollama") {
+		return new OllamaChatProvider(settings.serverAddress, {
+			numCtx: settings.ollamaNumCtx,
+			keepAlive: settings.ollamaKeepAlive,
+			format: settings.ollamaFormat,
+			think: settings.ollamaThink,
+		}, headers);
+	}
+	if (settings.providerType === "mock") {
+		return new MockChatProvider({
+			persona: settings.personas,
+			reasoning: settings.mockReasoning,
+			streamDelayMs: settings.mockStreamDelayMs,
+		});
+	}
+	// The official API rejects unknown parameters whatever the setting says
+	const extendedSampling = settings.openAIExtendedSampling !== false && !OFFICIAL_OPENAI_HOST.test(settings.serverAddress);
+	return new OpenAIChatProvider(settings.serverAddress, headers, extendedSampling);
+}
+
+const OFFICIAL_OPENAI_HOST = /^\s*https?:\/\/api\.openai\.com(?:[:/]|$)/i;
+
+// An override left undefined must not hide a value set on the client or in settings
+function definedOnly<T extends object>(values: T): Partial<T> {
+	const result: Partial<T> = {};
+	for (const key of Object.keys(values) as (keyof T)[]) {
+		if (values[key] !== undefined) result[key] = values[key];
+	}
+	return result;
+}
+
+/* Class Contract: Single client for chat requests --> Apply request overrides, client sampling defaults and settings defaults, delegate to the provider transport --> Give every command the same request/response behaviour */
+export class LLMClient {
+	private provider: ChatProvider;
+
+	// sampling: defaults for every request made through this client, e.g. a custom prompt's overrides
+	constructor(private settings: OLocalLLMSettings, private sampling: SamplingOptions = {}) {
+		this.provider = createChatProvider(settings);
+	}
+
+	/* Method Contract: Run a chat completion --> Resolve request overrides against settings and dispatch to the provider --> Return normalised ChatResult (cancelled when the signal aborted) or throw LLMClientError */
+	async chat(request: ChatRequest, options: ChatOptions = {}): Promise<ChatResult> {
+		const { messages, stream, jsonSchema, tools, ...overrides } = request;
+		const sampling: SamplingOptions = { ...definedOnly(this.sampling), ...definedOnly(overrides) };
+		try {
+			return await this.provider.chat({
+				...sampling,
+				model: this.settings.llmModel,
+				messages,
+				temperature: sampling.temperature ?? this.settings.temperature,
+				maxTokens: sampling.maxTokens ?? this.settings.maxTokens,
+				// Tool calls arrive as a whole, so tool requests always wait for the full reply
+				stream: tools?.length ? false : (stream ?? this.settings.stream),
+				jsonSchema,
+				tools,
+			}, options);
+		} catch (error) {
+			if (options.signal?.aborted) {
+				return { text: "", content: "", reasoning: "", cancelled: true };
+			}
+			throw error;
+		}
+	}
+}
+
+/* Class Contract: Talk to an OpenAI-compatible /chat/completions endpoint --> Send requests in streaming (SSE) or buffered mode and normalise the reply --> Transport for OpenAI, LM Studio and other compatible servers */
+export class OpenAIChatProvider implements ChatProvider {
+	// extendedSampling: send top_k, min_p and repeat penalty, which only local servers understand
+	constructor(private serverAddress: string, private headers: Record<string, string> = {}, private extendedSampling = true) { }
+
+	async chat(request: ProviderChatRequest, options: ChatOptions): Promise<ChatResult> {
+		// Unset overrides are undefined and dropped by JSON.stringify
+		const body = {
+			model: request.model,
+			messages: request.messages.map(toOpenAIMessage),
+			temperature: request.temperature,
+			max_tokens: request.maxTokens,
+			top_p: request.topP,
+			seed: request.seed,
+			stop: request.stop,
+			// Not part of the OpenAI spec: honoured by llama.cpp, LM Studio and vLLM, rejected by strict servers
+			...(this.extendedSampling ? {
+				top_k: request.topK,
+				min_p: request.minP,
+				repeat_penalty: request.repeatPenalty,     // llama.cpp, LM Studio
+				repetition_penalty: request.repeatPenalty, // vLLM
+			} : {}),
+			stream: request.stream,
+			response_format: request.jsonSchema
+				? { type: "json_schema", json_schema: { name: "response", schema: request.jsonSchema } }
+				: undefined,
+			tools: request.tools?.length ? request.tools.map(toToolSpec) : undefined,
+		};
+
+		return request.stream
+			? this.streamChat(body, options)
+			: this.completeChat(body, options);
+	}
+
+	private get endpoint(): string {
+		return `${this.serverAddress}/chat/completions`;
+	}
+
+	private async completeChat(body: object, options: ChatOptions): Promise<ChatResult> {
+		const response = await postJSON(this.endpoint, body, options.signal, this.headers);
+
+		if (response.status < 200 || response.status >= 300) {
+			throw new LLMClientError(
+				`LLM server returned ${response.status}: ${response.text}`,
+				response.status,
+				response.text
+			);
+		}
+
+		const data = response.json;
+		const message = data?.choices?.[0]?.message;
+		if (!message) {
+			console.error("Invalid response format from server:", data);
+			throw new LLMClientError("Invalid response from server. Expected 'choices[0].message' in response. Check console for details.");
+		}
+
+		const content: string = message.content || "";
+		const reasoning: string = message.reasoning || "";
+		return {
+			text: pickResponseText(content, reasoning),
+			content,
+			reasoning,
+			cancelled: !!options.signal?.aborted,
+			completionTokens: data.usage?.completion_tokens,
+			toolCalls: parseToolCalls(message.tool_calls),
+		};
+	}
+
+	private async streamChat(body: object, options: ChatOptions): Promise<ChatResult> {
+		const response = await fetch(this.endpoint, {
+			method: "POST",
+			headers: { "Content-Type": "application/json", ...this.headers },
+			body: JSON.stringify(body),
+			signal: options.signal,
+		});
+
+		if (!response.ok) {
+			const errorBody = await response.text().catch(() => "");
+			throw new LLMClientError(
+				`LLM server returned ${response.status}: ${response.statusText}`,
+				response.status,
+				errorBody
+			);
+		}
+
+		const reader = response.body && response.body.getReader();
+		if (!reader) {
+			throw new LLMClientError("Response reader not available for streaming");
+		}
+
+		let content = "";
+		let reasoning = "";
+		let completionTokens: number | undefined;
+
+		const { cancelled } = await readEventStream(reader, "sse", (event) => {
+			// The data lines of one event belong together; a payload may span several of them
+			const payload = event.data.trim();
+			if (!payload || payload === SSE_DONE_MARKER) return;
+			let chunk: any;
+			try {
+				chunk = JSON.parse(payload);
+			} catch (error) {
+				console.error("Error parsing JSON chunk:", error, payload);
+				return;
+			}
+			if (chunk.error) {
+				// Servers report failures after the 200 status as an error chunk; the partial answer is not a success
+				throw new LLMClientError(`LLM server error: ${chunk.error.message || JSON.stringify(chunk.error)}`, undefined, payload);
+			}
+			// Only sent by servers that honour stream_options.include_usage, usually on the last chunk
+			if (chunk.usage?.completion_tokens) {
+				completionTokens = chunk.usage.completion_tokens;
+			}
+			const delta = chunk.choices?.[0]?.delta || {};
+			const contentPart: string = delta.content || "";
+			const reasoningPart: string = delta.reasoning || "";
+			content += contentPart;
+			reasoning += reasoningPart;
+			const token = contentPart || reasoningPart;
+			if (token) options.onToken?.(token);
+		}, options.signal);
+
+		return {
+			text: pickResponseText(content, reasoning),
+			content,
+			reasoning,
+			cancelled,
+			completionTokens,
+		};
+	}
+}
+
+/* Contract: Wrap a tool definition for the request body --> Build the OpenAI "function" tool object, which Ollama accepts as well --> Return one entry of the tools array */
+export function toToolSpec(tool: ToolDefinition): object {
+	return {
+		type: "function",
+		function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+	};
+}
+
+/* Contract: Normalise tool calls from a reply --> Accept OpenAI (JSON string arguments, ids) and Ollama (object arguments, no ids) shapes --> Return ToolCalls, or undefined when the reply has none */
+export function parseToolCalls(rawCalls: any[] | undefined): ToolCall[] | undefined {
+	if (!Array.isArray(rawCalls) || rawCalls.length === 0) return undefined;
+
+	return rawCalls.map((call, index) => {
+		let args = call.function?.arguments ?? {};
+		if (typeof args === "string") {
+			try {
+				args = args.trim() ? JSON.parse(args) : {};
+			} catch (error) {
+				console.warn("Tool call arguments are not valid JSON:", args);
+				args = {};
+			}
+		}
+		return {
+			id: call.id || `call_${index}`,
+			name: call.function?.name || "",
+			arguments: args,
+		};
+	});
+}
+
+function toOpenAIMessage(message: ChatMessage): object {
+	if (message.toolCalls?.length) {
+		return {
+			role: "assistant",
+			content: message.content || null,
+			tool_calls: message.toolCalls.map(call => ({
+				id: call.id,
+				type: "function",
+				function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+			})),
+		};
+	}
+	if (message.role === "tool") {
+		return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+	}
+	if (message.images?.length) {
+		return {
+			role: message.role,
+			content: [
+				{ type: "text", text: message.content },
+				...message.images.map(image => ({
+					type: "image_url",
+					image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+				})),
+			],
+		};
+	}
+	return { role: message.role, content: message.content };
+}
+
+/* Contract: Strip reasoning sections from a model answer --> Apply configured start/end markers and answer heuristics --> Return the actual response, or the original text on failure */
+export function extractActualResponse(response: string, settings: OLocalLLMSettings): string {
+	if (!settings.extractReasoningResponses) {
+		return response;
+	}
+
+	try {
+		const markers = JSON.parse(settings.reasoningMarkers || "[]");
+
+		let extractedResponse = response;
+
+		// Look for common reasoning patterns and extract the actual response
+		for (const marker of markers) {
+			const { start, end } = marker;
+
+			// Find the start marker
+			const startIndex = extractedResponse.indexOf(start);
+			if (startIndex !== -1) {
+				// Find the end marker after the start marker
+				const endIndex = extractedResponse.indexOf(end, startIndex + start.length);
+				if (endIndex !== -1) {
+					// Extract the content after the reasoning section
+					const afterEndIndex = endIndex + end.length;
+					const afterContent = extractedResponse.substring(afterEndIndex).trim();
+
+					// If there's content after the reasoning section, use that
+					if (afterContent) {
+						extractedResponse = afterContent;
+					} else {
+						// If no content after reasoning section, try to find content before it
+						const beforeContent = extractedResponse.substring(0, startIndex).trim();
+						if (beforeContent) {
+							extractedResponse = beforeContent;
+						}
+					}
+				} else {
+					// If end marker not found, try to find the content after the start marker
+					const afterStartIndex = startIndex + start.length;
+					const afterContent = extractedResponse.substring(afterStartIndex).trim();
+
+					// Look for the first substantial paragraph after reasoning
+					const paragraphs = afterContent.split('\n\n');
+					for (const para of paragraphs) {
+						if (para.trim().length > 20) { // Arbitrary threshold for "substantial" content
+							extractedResponse = para.trim();
+							break;
+						}
+					}
+				}
+			}
+		}
+
+		// Additional heuristics for common reasoning patterns
+		// Look for patterns like "Answer:" or "Result:" after reasoning
+		const answerMatch = extractedResponse.match(/(?:Answer|Result|Output):\s*(.*)/i);
+		if (answerMatch && answerMatch[1]) {
+			const answerPart = answerMatch[1].trim();
+			if (answerPart.length > 10) { // If the answer part is substantial
+				extractedResponse = answerPart;
+			}
+		}
+
+		// Clean up any remaining artifacts
+		extractedResponse = extractedResponse.replace(/^\s*-\s*|\*\s*/gm, '').trim();
+
+		return extractedResponse || response; // Return original if extraction yields empty
+	} catch (error) {
+		console.error("Error extracting reasoning response:", error);
+		return response; // Return original response if extraction fails
+	}
+}
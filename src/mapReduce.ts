@@ -0,0 +1,146 @@
+import { ChatMessage, LLMClient } from "./llmClient";
+import { estimateMessagesTokens, estimateTokens } from "./contextBudget";
+import { splitMarkdown } from "./markdownChunker";
+
+/* Module Contract: Apply a prompt to text larger than the context window --> Split on markdown structure, run the prompt per chunk (map), combine the partial results (reduce) --> Return the final reduce request for the caller to stream */
+
+export const DEFAULT_REDUCE_PROMPT = "The following partial results were produced by applying an instruction to consecutive parts of one long text. Combine them into a single coherent result, as if the instruction had been applied to the whole text at once. Remove repetition and keep the format the instruction asks for.";
+
+// Chunks smaller than this are not worth a request of their own
+const MIN_CHUNK_TOKENS = 256;
+
+// Cost of the "### Part N" heading and separator around every partial in a reduce message
+const TOKENS_PER_PARTIAL = 4;
+
+// Ends a partial result that had to be shortened to fit a reduce request
+const TRUNCATION_MARKER = "\n\n[…]";
+
+export interface MapReduceRequest {
+	systemPrompt: string;
+	instruction: string;                          // The prompt being applied, repeated in reduce requests
+	text: string;                                 // Text to process in chunks
+	buildUserMessage: (chunk: string) => string;  // Combines instruction and chunk (prompt concatenation pattern)
+	reducePrompt: string;
+	contextLength: number;
+	maxOutputTokens: number;
+	signal: AbortSignal;
+	cleanup?: (text: string) => string;           // Post-processes every partial result, e.g. strips reasoning
+	onProgress?: (progress: string) => void;
+}
+
+/* Contract: Prepare a map-reduce run --> Split the text so each chunk plus the prompt fits the context window --> Return the chunks */
+export function splitForMapReduce(request: Pick<MapReduceRequest, "systemPrompt" | "text" | "buildUserMessage" | "contextLength" | "maxOutputTokens">): string[] {
+	const overhead = estimateMessagesTokens([
+		{ role: "system", content: request.systemPrompt },
+		{ role: "user", content: request.buildUserMessage("") },
+	]);
+	return splitMarkdown(request.text, tokenBudget(request.contextLength, request.maxOutputTokens, overhead), estimateTokens);
+}
+
+/* Contract: Run the map phase and all but the last reduce step --> Query the model once per chunk, then merge partial results in groups until they fit one request --> Return messages for the final reduce call, or throw AbortError when cancelled */
+export async function runMapReduce(client: LLMClient, request: MapReduceRequest): Promise<ChatMessage[]> {
+	const system: ChatMessage = { role: "system", content: request.systemPrompt };
+	const chunks = splitForMapReduce(request);
+	if (chunks.length <= 1) {
+		return [system, { role: "user", content: request.buildUserMessage(request.text) }];
+	}
+
+	let partials: string[] = [];
+	for (let i = 0; i < chunks.length; i++) {
+		request.onProgress?.(`part ${i + 1}/${chunks.length}`);
+		partials.push(await complete(client, request, [system, { role: "user", content: request.buildUserMessage(chunks[i]) }]));
+	}
+
+	const reduceOverhead = estimateMessagesTokens([system, { role: "user", content: buildReduceMessage(request, []) }]);
+	const reduceBudget = tokenBudget(request.contextLength, request.maxOutputTokens, reduceOverhead);
+
+	// Hierarchical reduce: merge groups of partials until everything fits into one final request
+	while (partials.length > 1) {
+		let groups = groupPartials(partials, reduceBudget);
+		if (groups.length === 1) break;
+		// No two neighbours fit one request: merge them in pairs, shortened to the budget, so every round still halves the count
+		if (groups.length === partials.length) {
+			groups = pairPartials(partials).map(group => fitPartials(group, reduceBudget));
+		}
+
+		const merged: string[] = [];
+		for (let i = 0; i < groups.length; i++) {
+			request.onProgress?.(`combining ${i + 1}/${groups.length}`);
+			merged.push(groups[i].length === 1
+				? groups[i][0]
+				: await complete(client, request, [system, { role: "user", content: buildReduceMessage(request, groups[i]) }]));
+		}
+		partials = merged;
+	}
+
+	request.onProgress?.("final answer");
+	return [system, { role: "user", content: buildReduceMessage(request, fitPartials(partials, reduceBudget)) }];
+}
+
+function tokenBudget(contextLength: number, maxOutputTokens: number, overhead: number): number {
+	const reserved = Math.min(Math.max(maxOutputTokens, 0), Math.floor(contextLength / 2));
+	return Math.max(MIN_CHUNK_TOKENS, contextLength - reserved - overhead);
+}
+
+function buildReduceMessage(request: MapReduceRequest, partials: string[]): string {
+	const parts = partials.map((partial, i) => `### Part ${i + 1}\n\n${partial}`).join("\n\n");
+	return `${request.reducePrompt}\n\nInstruction: ${request.instruction}\n\nPartial results:\n\n${parts}`;
+}
+
+function groupPartials(partials: string[], budget: number): string[][] {
+	const groups: string[][] = [];
+	let current: string[] = [];
+	let currentTokens = 0;
+	for (const partial of partials) {
+		const tokens = estimateTokens(partial) + TOKENS_PER_PARTIAL;
+		if (current.length > 0 && currentTokens + tokens > budget) {
+			groups.push(current);
+			current = [];
+			currentTokens = 0;
+		}
+		current.push(partial);
+		currentTokens += tokens;
+	}
+	if (current.length > 0) groups.push(current);
+	return groups;
+}
+
+function pairPartials(partials: string[]): string[][] {
+	const pairs: string[][] = [];
+	for (let i = 0; i < partials.length; i += 2) {
+		pairs.push(partials.slice(i, i + 2));
+	}
+	return pairs;
+}
+
+/* Contract: Make partials fit one reduce request --> Cut every partial longer than an equal share of the budget and mark the cut --> Return the partials, unchanged when they already fit */
+function fitPartials(partials: string[], budget: number): string[] {
+	const total = partials.reduce((sum, partial) => sum + estimateTokens(partial) + TOKENS_PER_PARTIAL, 0);
+	if (total <= budget) return partials;
+
+	const share = Math.floor(budget / partials.length) - TOKENS_PER_PARTIAL - estimateTokens(TRUNCATION_MARKER);
+	return partials.map(partial => estimateTokens(partial) <= share ? partial : truncateToTokens(partial, share) + TRUNCATION_MARKER);
+}
+
+// Longest prefix of the text within the token limit
+function truncateToTokens(text: string, maxTokens: number): string {
+	let low = 0;
+	let high = text.length;
+	while (low < high) {
+		const middle = Math.ceil((low + high) / 2);
+		if (estimateTokens(text.slice(0, middle)) <= maxTokens) {
+			low = middle;
+		} else {
+			high = middle - 1;
+		}
+	}
+	return text.slice(0, low).trimEnd();
+}
+
+async function complete(client: LLMClient, request: MapReduceRequest, messages: ChatMessage[]): Promise<string> {
+	const result = await client.chat({ messages, stream: false }, { signal: request.signal });
+	if (result.cancelled) {
+		throw new DOMException("Chunked processing cancelled", "AbortError");
+	}
+	return request.cleanup ? request.cleanup(result.text) : result.text;
+}
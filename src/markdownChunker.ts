@@ -0,0 +1,95 @@
+/* Module Contract: Split text into size-limited chunks --> Pack words (as RAGManager does) or markdown sections/paragraphs into chunks under a size limit --> Used by RAG indexing and chunked custom prompts */
+
+/* Contract: Pack whitespace-separated words into chunks --> Append words while measure(chunk) + measure(word) + 1 stays within maxSize --> Return chunks (measure defaults to character count) */
+export function splitByWords(content: string, maxSize: number, measure: (text: string) => number = (text) => text.length): string[] {
+	const chunks: string[] = [];
+	let currentChunk = '';
+	let currentSize = 0;
+
+	// Trimming first keeps leading or trailing whitespace from becoming an empty word
+	const words = content.trim().split(/\s+/).filter(word => word !== '');
+	words.forEach((word) => {
+		const wordSize = measure(word);
+		if (currentSize + wordSize + 1 <= maxSize) {
+			currentSize += (currentChunk ? 1 : 0) + wordSize;
+			currentChunk += (currentChunk ? ' ' : '') + word;
+		} else {
+			// An oversized word gets a chunk of its own, without an empty one before it
+			if (currentChunk) chunks.push(currentChunk);
+			currentChunk = word;
+			currentSize = wordSize;
+		}
+	});
+
+	if (currentChunk) {
+		chunks.push(currentChunk);
+	}
+
+	return chunks;
+}
+
+/* Contract: Break markdown into structural blocks --> Start a block at every heading and blank line, keep fenced code blocks whole --> Return non-empty blocks in document order */
+export function splitMarkdownBlocks(text: string): string[] {
+	const blocks: string[] = [];
+	let current: string[] = [];
+	let inFence = false;
+
+	const flush = () => {
+		const block = current.join('\n').trim();
+		if (block) blocks.push(block);
+		current = [];
+	};
+
+	for (const line of text.split('\n')) {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+		}
+		if (!inFence && /^#{1,6}\s/.test(line)) {
+			flush();
+		}
+		if (!inFence && line.trim() === '') {
+			flush();
+			continue;
+		}
+		current.push(line);
+	}
+	flush();
+
+	return blocks;
+}
+
+/* Contract: Split markdown into chunks under a size limit --> Pack consecutive blocks, start a new chunk at headings once the current one is half full, word-split oversized blocks --> Return chunks joined with blank lines */
+export function splitMarkdown(text: string, maxSize: number, measure: (text: string) => number = (text) => text.length): string[] {
+	const chunks: string[] = [];
+	let current: string[] = [];
+	let currentSize = 0;
+
+	const flush = () => {
+		if (current.length > 0) chunks.push(current.join('\n\n'));
+		current = [];
+		currentSize = 0;
+	};
+
+	for (const block of splitMarkdownBlocks(text)) {
+		const blockSize = measure(block);
+
+		if (blockSize > maxSize) {
+			flush();
+			splitByWords(block, maxSize, measure)
+				.filter(piece => piece.length > 0)
+				.forEach(piece => chunks.push(piece));
+			continue;
+		}
+
+		// Prefer section boundaries: a heading opens a new chunk unless the current one is still small
+		const startsSection = /^#{1,6}\s/.test(block);
+		if (currentSize + blockSize + 2 > maxSize || (startsSection && currentSize > maxSize / 2)) {
+			flush();
+		}
+		current.push(block);
+		currentSize += blockSize + 2;
+	}
+	flush();
+
+	return chunks;
+}
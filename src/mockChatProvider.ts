@@ -0,0 +1,170 @@
+import { ChatMessage, ChatOptions, ChatProvider, ChatResult, ProviderChatRequest, pickResponseText } from './llmClient';
+import { JSONSchema } from './structuredOutput';
+
+/* Module Contract: Develop prompts without a server --> Answer every request with a deterministic transcript of exactly what would have been sent, optionally streamed and with a simulated reasoning section --> Chat transport for providerType "mock" */
+
+export type MockReasoningMode = 'off' | 'field' | 'inline';
+
+export interface MockChatOptions {
+	persona?: string;            // Persona key, shown in the transcript (its text is already part of the system prompt)
+	reasoning?: MockReasoningMode; // 'field' fills ChatResult.reasoning like thinking models, 'inline' wraps it in <reasoning> markers
+	streamDelayMs?: number;      // Pause between streamed chunks
+}
+
+const SAMPLING_LABELS: [keyof ProviderChatRequest, string][] = [
+	['topP', 'top_p'],
+	['topK', 'top_k'],
+	['minP', 'min_p'],
+	['repeatPenalty', 'repeat_penalty'],
+	['seed', 'seed'],
+	['stop', 'stop'],
+];
+
+/* Class Contract: Echo provider --> Format the resolved request as text (or a schema-shaped sample for structured requests), stream it word by word when asked --> Lets formatting, reasoning extraction and output modes run with no model */
+export class MockChatProvider implements ChatProvider {
+	constructor(private options: MockChatOptions = {}) { }
+
+	async chat(request: ProviderChatRequest, options: ChatOptions): Promise<ChatResult> {
+		const reasoning = this.options.reasoning && this.options.reasoning !== 'off' ? describeReasoning(request) : '';
+		let content = request.jsonSchema
+			? JSON.stringify(sampleForSchema(request.jsonSchema), null, 2)
+			: formatTranscript(request, this.options.persona);
+		if (this.options.reasoning === 'inline') {
+			content = `<reasoning>\n${reasoning}\n</reasoning>\n\n${content}`;
+		}
+		const reasoningField = this.options.reasoning === 'field' ? reasoning : '';
+
+		if (!request.stream) {
+			return {
+				text: pickResponseText(content, reasoningField),
+				content,
+				reasoning: reasoningField,
+				cancelled: !!options.signal?.aborted,
+				completionTokens: toChunks(reasoningField + content).length,
+			};
+		}
+
+		// Like real servers, reasoning deltas arrive before the answer
+		let streamedContent = '';
+		let streamedReasoning = '';
+		let chunks = 0;
+		const parts = [
+			...toChunks(reasoningField).map(text => ({ text, reasoning: true })),
+			...toChunks(content).map(text => ({ text, reasoning: false })),
+		];
+		for (const part of parts) {
+			if (options.signal?.aborted) {
+				return { text: pickResponseText(streamedContent, streamedReasoning), content: streamedContent, reasoning: streamedReasoning, cancelled: true, completionTokens: chunks };
+			}
+			await sleep(this.options.streamDelayMs ?? 0);
+			if (part.reasoning) {
+				streamedReasoning += part.text;
+			} else {
+				streamedContent += part.text;
+			}
+			chunks++;
+			options.onToken?.(part.text);
+		}
+
+		return {
+			text: pickResponseText(streamedContent, streamedReasoning),
+			content: streamedContent,
+			reasoning: streamedReasoning,
+			cancelled: !!options.signal?.aborted,
+			completionTokens: chunks,
+		};
+	}
+}
+
+/* Contract: Describe a request for the mock reply --> List model, sampling, persona, tools and every message with its role --> Return the transcript text, identical for identical requests */
+export function formatTranscript(request: ProviderChatRequest, persona?: string): string {
+	const lines = [
+		'### Mock LLM request',
+		`Model: ${request.model}`,
+		`Temperature: ${request.temperature}, max tokens: ${request.maxTokens}, stream: ${request.stream ? 'on' : 'off'}`,
+	];
+	const sampling = SAMPLING_LABELS
+		.filter(([key]) => request[key] !== undefined)
+		.map(([key, label]) => `${label} ${JSON.stringify(request[key])}`);
+	if (sampling.length > 0) {
+		lines.push(`Sampling: ${sampling.join(', ')}`);
+	}
+	if (persona) {
+		lines.push(`Persona: ${persona}`);
+	}
+	if (request.tools?.length) {
+		lines.push(`Tools: ${request.tools.map(tool => tool.name).join(', ')}`);
+	}
+
+	for (const message of request.messages) {
+		lines.push('', `#### ${describeRole(message)}`, message.content);
+	}
+	return lines.join('\n');
+}
+
+function describeRole(message: ChatMessage): string {
+	const details: string[] = [];
+	if (message.images?.length) {
+		details.push(`${message.images.length} image${message.images.length === 1 ? '' : 's'}: ${message.images.map(image => image.name || image.mimeType).join(', ')}`);
+	}
+	if (message.toolCalls?.length) {
+		details.push(`calls ${message.toolCalls.map(call => call.name).join(', ')}`);
+	}
+	if (message.toolName) {
+		details.push(message.toolName);
+	}
+	return details.length > 0 ? `${message.role} (${details.join('; ')})` : message.role;
+}
+
+function describeReasoning(request: ProviderChatRequest): string {
+	const characters = request.messages.reduce((total, message) => total + message.content.length, 0);
+	return `The request has ${request.messages.length} messages with ${characters} characters. This is the mock provider, so the answer echoes the request instead of answering it.`;
+}
+
+/* Contract: Build a value that satisfies a JSON schema --> Take the first enum/const value, required object properties, the minimum array length and type defaults --> Return a sample for structured output requests */
+export function sampleForSchema(schema: JSONSchema): unknown {
+	if (schema.const !== undefined) return schema.const;
+	if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+	const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+	switch (type) {
+		case 'object': {
+			const value: Record<string, unknown> = {};
+			const properties: Record<string, JSONSchema> = schema.properties || {};
+			for (const key of Object.keys(properties)) {
+				if (!Array.isArray(schema.required) || schema.required.includes(key)) {
+					value[key] = sampleForSchema(properties[key]);
+				}
+			}
+			return value;
+		}
+		case 'array': {
+			const length = Math.min(Math.max(schema.minItems ?? 1, 1), schema.maxItems ?? Infinity);
+			const items: unknown[] = [];
+			for (let i = 0; i < length; i++) {
+				items.push(sampleForSchema(schema.items || {}));
+			}
+			return items;
+		}
+		case 'integer':
+		case 'number':
+			return schema.minimum ?? 0;
+		case 'boolean':
+			return false;
+		case 'null':
+			return null;
+		default: {
+			const text = 'mock';
+			return schema.minLength && schema.minLength > text.length ? text.repeat(Math.ceil(schema.minLength / text.length)) : text;
+		}
+	}
+}
+
+// Words with their trailing whitespace, so joining the chunks restores the text exactly
+function toChunks(text: string): string[] {
+	return text.match(/\s+|\S+\s*/g) || [];
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => window.setTimeout(resolve, ms));
+}
@@ -0,0 +1,34 @@
+/* Module Contract: Index and search notes without a server --> Hash the words of a text into a fixed-size, normalised vector --> Embedding transport for providerType "mock", so RAG runs offline like chat does */
+
+// Enough dimensions that unrelated words rarely share a bucket in note-sized texts
+export const MOCK_EMBEDDING_DIMENSIONS = 256;
+
+/* Class Contract: Deterministic bag-of-words embeddings --> Same text, same vector; texts sharing words score higher under cosine similarity --> Drop-in for OllamaEmbeddings in MemoryVectorStore */
+export class MockEmbeddings {
+	async embedDocuments(documents: string[]): Promise<number[][]> {
+		return documents.map(document => embedText(document));
+	}
+
+	async embedQuery(text: string): Promise<number[]> {
+		return embedText(text);
+	}
+}
+
+function embedText(text: string): number[] {
+	const vector: number[] = new Array(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+	for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+		if (word) vector[hashWord(word) % MOCK_EMBEDDING_DIMENSIONS] += 1;
+	}
+	const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+	return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+// FNV-1a, stable across sessions so saved mock embeddings stay searchable
+function hashWord(word: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < word.length; i++) {
+		hash ^= word.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193) >>> 0;
+	}
+	return hash;
+}
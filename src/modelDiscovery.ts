@@ -0,0 +1,96 @@
+import { AbstractInputSuggest, App, requestUrl } from 'obsidian';
+import { OLocalLLMSettings } from '../main';
+import { toOllamaBaseUrl } from './ollamaChatProvider';
+import { buildRequestHeaders } from './requestHeaders';
+
+/* Module Contract: Discover models installed on the configured server --> Query /api/tags (Ollama) or /models (OpenAI-compatible) and split chat/embedding models --> Used by the settings tab model pickers */
+
+export interface DiscoveredModels {
+	chat: string[];
+	embedding: string[];
+}
+
+// Name fragments that identify embedding-only models on servers that don't report model type
+const EMBEDDING_MODEL_HINTS = ['embed', 'minilm', 'bge-', 'e5-', 'gte-', 'nomic-bert'];
+
+export function isEmbeddingModelName(name: string): boolean {
+	const lowerName = name.toLowerCase();
+	return EMBEDDING_MODEL_HINTS.some(hint => lowerName.includes(hint));
+}
+
+/* Contract: Check whether a saved model is installed --> Compare names, treating Ollama's implicit ":latest" tag as equal --> Return true when the model is in the list */
+export function isModelAvailable(model: string, available: string[]): boolean {
+	return available.some(name => name === model || name === `${model}:latest` || `${name}:latest` === model);
+}
+
+/* Contract: List models available on the server --> Call the provider's model listing endpoint and classify each model --> Return chat and embedding model names, or throw on connection/format errors */
+export async function discoverModels(settings: OLocalLLMSettings): Promise<DiscoveredModels> {
+	if (settings.providerType === 'mock') {
+		// The mock provider answers under any model name
+		return { chat: [settings.llmModel], embedding: [] };
+	}
+
+	const headers = buildRequestHeaders(settings);
+	const names = settings.providerType === 'ollama'
+		? await listOllamaModels(settings.serverAddress, headers)
+		: await listOpenAIModels(settings.serverAddress, headers);
+
+	const sorted = [...new Set(names)].sort((a, b) => a.localeCompare(b));
+	return {
+		chat: sorted.filter(name => !isEmbeddingModelName(name)),
+		embedding: sorted.filter(name => isEmbeddingModelName(name)),
+	};
+}
+
+async function listOllamaModels(serverAddress: string, headers: Record<string, string>): Promise<string[]> {
+	const response = await requestUrl({
+		url: `${toOllamaBaseUrl(serverAddress)}/api/tags`,
+		method: 'GET',
+		headers,
+		throw: false,
+	});
+
+	if (response.status !== 200) {
+		throw new Error(`Ollama returned ${response.status} when listing models`);
+	}
+
+	return (response.json?.models || []).map((m: any) => m.name as string);
+}
+
+async function listOpenAIModels(serverAddress: string, headers: Record<string, string>): Promise<string[]> {
+	const response = await requestUrl({
+		url: `${serverAddress.replace(/\/+$/, '')}/models`,
+		method: 'GET',
+		headers,
+		throw: false,
+	});
+
+	if (response.status !== 200) {
+		throw new Error(`Server returned ${response.status} when listing models`);
+	}
+
+	return (response.json?.data || []).map((m: any) => m.id as string);
+}
+
+/* Class Contract: Searchable model picker for a settings text field --> Filter the discovered model names by the typed query --> Turn free-text model inputs into dropdowns */
+export class ModelSuggest extends AbstractInputSuggest<string> {
+	constructor(app: App, private modelInputEl: HTMLInputElement, private getModels: () => string[]) {
+		super(app, modelInputEl);
+	}
+
+	protected getSuggestions(query: string): string[] {
+		const lowerQuery = query.toLowerCase();
+		return this.getModels().filter(name => name.toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(value: string, el: HTMLElement): void {
+		el.setText(value);
+	}
+
+	selectSuggestion(value: string, evt: MouseEvent | KeyboardEvent): void {
+		this.setValue(value);
+		// Fire the input event so the text component's onChange persists the choice
+		this.modelInputEl.dispatchEvent(new Event('input'));
+		this.close();
+	}
+}
@@ -0,0 +1,195 @@
+import { ChatMessage, ChatOptions, ChatProvider, ChatResult, LLMClientError, ProviderChatRequest, parseToolCalls, pickResponseText, postJSON, toToolSpec } from './llmClient';
+import { readEventStream } from './streamParser';
+
+export interface OllamaChatOptions {
+	numCtx?: number;          // Context window (options.num_ctx), 0/undefined keeps the model default
+	keepAlive?: string;       // How long the model stays loaded, e.g. "5m", "-1"
+	format?: string | object; // "json" or a JSON schema
+	think?: boolean;          // Enable/disable thinking for reasoning models, undefined leaves it to the server
+}
+
+/* Contract: Derive the native Ollama API root from the configured server address --> Strip trailing slashes and the OpenAI-compatible /v1 suffix --> Return base URL for /api/* endpoints */
+export function toOllamaBaseUrl(serverAddress: string): string {
+	return serverAddress.trim().replace(/\/+$/, '').replace(/\/v1$/, '');
+}
+
+/* Class Contract: Talk to Ollama's native /api/chat endpoint --> Map plugin settings and Ollama-only options onto the request, read NDJSON streams --> Chat transport for providerType "ollama" */
+export class OllamaChatProvider implements ChatProvider {
+	private baseUrl: string;
+
+	constructor(serverAddress: string, private ollamaOptions: OllamaChatOptions = {}, private headers: Record<string, string> = {}) {
+		this.baseUrl = toOllamaBaseUrl(serverAddress);
+	}
+
+	async chat(request: ProviderChatRequest, options: ChatOptions): Promise<ChatResult> {
+		const body = this.buildBody(request);
+		return request.stream
+			? this.streamChat(body, options)
+			: this.completeChat(body, options);
+	}
+
+	private get endpoint(): string {
+		return `${this.baseUrl}/api/chat`;
+	}
+
+	private buildBody(request: ProviderChatRequest): Record<string, unknown> {
+		// Unset overrides are undefined and dropped by JSON.stringify
+		const modelOptions: Record<string, unknown> = {
+			temperature: request.temperature,
+			num_predict: request.maxTokens,
+			top_p: request.topP,
+			top_k: request.topK,
+			min_p: request.minP,
+			repeat_penalty: request.repeatPenalty,
+			seed: request.seed,
+			stop: request.stop,
+		};
+		if (this.ollamaOptions.numCtx && this.ollamaOptions.numCtx > 0) {
+			modelOptions.num_ctx = this.ollamaOptions.numCtx;
+		}
+
+		const body: Record<string, unknown> = {
+			model: request.model,
+			messages: request.messages.map(toOllamaMessage),
+			stream: request.stream,
+			options: modelOptions,
+		};
+		if (request.tools?.length) {
+			body.tools = request.tools.map(toToolSpec);
+		}
+
+		if (this.ollamaOptions.keepAlive) {
+			body.keep_alive = this.ollamaOptions.keepAlive;
+		}
+		// A schema requested by the caller wins over the format from settings
+		const format = request.jsonSchema || this.resolveFormat(this.ollamaOptions.format);
+		if (format) {
+			body.format = format;
+		}
+		if (this.ollamaOptions.think !== undefined) {
+			body.think = this.ollamaOptions.think;
+		}
+
+		return body;
+	}
+
+	private resolveFormat(format: string | object | undefined): string | object | undefined {
+		if (!format) return undefined;
+		if (typeof format !== 'string') return format;
+
+		const trimmed = format.trim();
+		if (!trimmed) return undefined;
+		if (trimmed === 'json') return 'json';
+
+		try {
+			return JSON.parse(trimmed);
+		} catch (error) {
+			console.warn(`Ignoring invalid Ollama format "${trimmed}" - expected "json" or a JSON schema`);
+			return undefined;
+		}
+	}
+
+	private async completeChat(body: Record<string, unknown>, options: ChatOptions): Promise<ChatResult> {
+		const response = await postJSON(this.endpoint, body, options.signal, this.headers);
+
+		if (response.status < 200 || response.status >= 300) {
+			throw new LLMClientError(
+				`Ollama returned ${response.status}: ${response.text}`,
+				response.status,
+				response.text
+			);
+		}
+
+		const data = response.json;
+		if (!data?.message) {
+			console.error('Invalid response format from Ollama:', data);
+			throw new LLMClientError(data?.error || "Invalid response from Ollama. Expected 'message' in response. Check console for details.");
+		}
+
+		const content: string = data.message.content || '';
+		const reasoning: string = data.message.thinking || '';
+		return {
+			text: pickResponseText(content, reasoning),
+			content,
+			reasoning,
+			cancelled: !!options.signal?.aborted,
+			completionTokens: data.eval_count,
+			toolCalls: parseToolCalls(data.message.tool_calls),
+		};
+	}
+
+	private async streamChat(body: Record<string, unknown>, options: ChatOptions): Promise<ChatResult> {
+		const response = await fetch(this.endpoint, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', ...this.headers },
+			body: JSON.stringify(body),
+			signal: options.signal,
+		});
+
+		if (!response.ok) {
+			const errorBody = await response.text().catch(() => '');
+			throw new LLMClientError(
+				`Ollama returned ${response.status}: ${response.statusText}`,
+				response.status,
+				errorBody
+			);
+		}
+
+		const reader = response.body && response.body.getReader();
+		if (!reader) {
+			throw new LLMClientError('Response reader not available for streaming');
+		}
+
+		let content = '';
+		let reasoning = '';
+		let completionTokens: number | undefined;
+
+		const { cancelled } = await readEventStream(reader, 'ndjson', (event) => {
+			let data: any;
+			try {
+				data = JSON.parse(event.data);
+			} catch (error) {
+				console.error('Error parsing Ollama stream line:', error, event.data);
+				return;
+			}
+			if (data.error) {
+				throw new LLMClientError(`Ollama error: ${data.error}`);
+			}
+			if (data.done && data.eval_count) {
+				completionTokens = data.eval_count;
+			}
+			const contentPart: string = data.message?.content || '';
+			const reasoningPart: string = data.message?.thinking || '';
+			content += contentPart;
+			reasoning += reasoningPart;
+			const token = contentPart || reasoningPart;
+			if (token) options.onToken?.(token);
+		}, options.signal);
+
+		return {
+			text: pickResponseText(content, reasoning),
+			content,
+			reasoning,
+			cancelled,
+			completionTokens,
+		};
+	}
+}
+
+// Ollama takes tool call arguments as objects, names the tool on result messages and wants bare base64 images
+function toOllamaMessage(message: ChatMessage): object {
+	if (message.toolCalls?.length) {
+		return {
+			role: 'assistant',
+			content: message.content,
+			tool_calls: message.toolCalls.map(call => ({ function: { name: call.name, arguments: call.arguments } })),
+		};
+	}
+	if (message.role === 'tool') {
+		return { role: 'tool', content: message.content, tool_name: message.toolName };
+	}
+	if (message.images?.length) {
+		return { role: message.role, content: message.content, images: message.images.map(image => image.data) };
+	}
+	return { role: message.role, content: message.content };
+}
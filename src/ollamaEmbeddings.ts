@@ -3,12 +3,14 @@ import { requestUrl } from 'obsidian';
 export class OllamaEmbeddings {
 	private baseUrl: string;
 	private model: string;
+	private headers: Record<string, string>;
 
-	constructor(baseUrl: string, model: string) {
+	constructor(baseUrl: string, model: string, headers: Record<string, string> = {}) {
 		// Ensure Ollama uses the correct default port if not specified
 		this.baseUrl = baseUrl.includes(':') ? baseUrl : 
 			baseUrl.replace('localhost', 'localhost:11434').replace('127.0.0.1', '127.0.0.1:11434');
 		this.model = model;
+		this.headers = headers;
 		
 		console.log(`Ollama Embeddings initialized with URL: ${this.baseUrl}, Model: ${this.model}`);
 	}
@@ -17,7 +19,8 @@ export class OllamaEmbeddings {
 		try {
 			const response = await requestUrl({
 				url: `${this.baseUrl}/api/tags`,
-				method: 'GET'
+				method: 'GET',
+				headers: this.headers
 			});
 
 			if (response.status === 200) {
@@ -68,6 +71,7 @@ export class OllamaEmbeddings {
 				method: 'POST',
 				headers: {
 					'Content-Type': 'application/json',
+					...this.headers,
 				},
 				body: JSON.stringify({
 					model: this.model,
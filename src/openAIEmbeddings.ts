@@ -1,7 +1,7 @@
 import { OpenAIEmbeddings as OEmbed } from "@langchain/openai";
 
 export class OpenAIEmbeddings extends OEmbed {
-	constructor(openAIApiKey: string = "lm-studio", modelName: string, baseURL: string = "http://127.0.0.1:1234") {
+	constructor(openAIApiKey: string = "lm-studio", modelName: string, baseURL: string = "http://127.0.0.1:1234", headers: Record<string, string> = {}) {
 		// Ensure LM Studio uses the correct default port if not specified
 		const studioUrl = baseURL.includes(':') ? baseURL : 
 			baseURL.replace('localhost', 'localhost:1234').replace('127.0.0.1', '127.0.0.1:1234');
@@ -9,7 +9,7 @@ export class OpenAIEmbeddings extends OEmbed {
 		super({
 			openAIApiKey,
 			modelName,
-			configuration: { baseURL: `${studioUrl}/v1` }
+			configuration: { baseURL: `${studioUrl}/v1`, defaultHeaders: headers }
 		});
 		
 		console.log(`OpenAI/LM Studio Embeddings initialized with URL: ${studioUrl}/v1, Model: ${modelName}`);
@@ -0,0 +1,279 @@
+import { App, Editor, EditorPosition, MarkdownView, Notice, TFile, moment, normalizePath } from "obsidian";
+import { OLocalLLMSettings } from "../main";
+import { AnchoredInsertion } from "./anchoredInsertion";
+import { reviewChanges } from "./diffReviewModal";
+import { ReadingSelection } from "./readingViewSelection";
+import { ResponsePreviewView } from "./responsePreviewView";
+
+/* Module Contract: Decide where an answer goes --> One writer per output mode: at the selection, after a diff review, below its paragraph, in a callout, in a new linked note, on the clipboard or in the preview pane --> Used by generateIntoEditor for streamed and buffered answers */
+
+export type OutputMode = "replace" | "review" | "append" | "below" | "callout" | "note" | "clipboard" | "preview";
+
+export const OUTPUT_MODE_NAMES: Record<OutputMode, string> = {
+	replace: "Replace selected text",
+	review: "Review changes, then replace",
+	append: "Append after selected text",
+	below: "Insert below the paragraph",
+	callout: "Callout below the paragraph",
+	note: "New note linked from the source",
+	clipboard: "Copy to clipboard only",
+	preview: "Show in preview pane",
+};
+
+export interface OutputContext {
+	app: App;
+	settings: OLocalLLMSettings;
+	selectedText: string;
+	title: string; // Prompt title, used for callout titles, new note names and the preview header
+	openPreview: () => Promise<ResponsePreviewView | null>;
+	readingSelection?: ReadingSelection; // Selection made in reading view; the answer is written to its file instead of an editor
+}
+
+/* Contract: Receive an answer --> start() before the first token, token() for each streamed token, finish() with the final answer --> Implemented once per output mode */
+export interface OutputWriter {
+	start(): Promise<void>;
+	token(text: string): void;
+	// streamed: the tokens were already passed to token(), so only closing touches remain
+	finish(response: string, streamed: boolean): Promise<void>;
+	// Generation was cancelled or failed: keep what was already written
+	cancel(): Promise<void>;
+}
+
+/* Contract: Create the writer for an output mode --> Capture the source note and the range the answer goes to now, so tokens land where the prompt ran even if the cursor moves or the note is switched --> Return an OutputWriter, or null when the mode writes into a note and there is neither an editor nor a reading view selection */
+export function createOutputWriter(mode: string, context: OutputContext): OutputWriter | null {
+	const view = context.app.workspace.getActiveViewOfType(MarkdownView);
+	const reading = context.readingSelection;
+	const sourceFile = reading?.file ?? view?.file ?? null;
+	if (mode === "clipboard") {
+		return new ClipboardWriter();
+	}
+	if (mode === "preview") {
+		return new PreviewWriter(context, sourceFile);
+	}
+
+	// selection: the selected text, end: right after it, below: after its paragraph
+	const anchor = (target: "selection" | "end" | "below"): AnchoredInsertion | null => {
+		if (reading) {
+			switch (target) {
+				case "selection":
+					return AnchoredInsertion.inFile(context.app, reading.file, reading.from, reading.to, reading.text);
+				case "end":
+					return AnchoredInsertion.inFile(context.app, reading.file, reading.to, reading.to, "", reading.text);
+				case "below":
+					return AnchoredInsertion.inFile(context.app, reading.file, reading.blockEnd, reading.blockEnd, "", reading.blockText);
+			}
+		}
+		if (!view) {
+			return null;
+		}
+		const editor = view.editor;
+		const from = target === "selection" ? editor.getCursor("from") : target === "end" ? editor.getCursor("to") : paragraphEnd(editor);
+		return AnchoredInsertion.capture(context.app, view, from, target === "selection" ? editor.getCursor("to") : from);
+	};
+	let insertion: AnchoredInsertion | null;
+	switch (mode) {
+		case "note":
+			insertion = anchor("below");
+			return insertion && new NoteWriter(context, insertion);
+		case "callout":
+			insertion = anchor("below");
+			return insertion && new CalloutWriter(context, insertion);
+		case "review":
+			insertion = anchor("selection");
+			return insertion && new ReviewWriter(context, insertion);
+		case "below":
+			insertion = anchor("below");
+			return insertion && new EditorWriter(context, insertion, "below");
+		case "append":
+			insertion = anchor("end");
+			return insertion && new EditorWriter(context, insertion, "append");
+		case "replace":
+			insertion = anchor("selection");
+			return insertion && new EditorWriter(context, insertion, "replace");
+		default:
+			console.warn(`Unknown output mode "${mode}", replacing the selection`);
+			insertion = anchor("selection");
+			return insertion && new EditorWriter(context, insertion, "replace");
+	}
+}
+
+/* Contract: Find where text below the selection goes --> Walk down from the selection end to the last non-empty line of its paragraph --> Return the end of that line */
+function paragraphEnd(editor: Editor): EditorPosition {
+	let line = editor.getCursor("to").line;
+	while (line + 1 < editor.lineCount() && editor.getLine(line + 1).trim() !== "") {
+		line++;
+	}
+	return { line, ch: editor.getLine(line).length };
+}
+
+// Replace overwrites the selection with the first write; append and below add a paragraph break first
+class EditorWriter implements OutputWriter {
+	private replacePending: boolean;
+
+	constructor(private context: OutputContext, private insertion: AnchoredInsertion, private mode: "replace" | "append" | "below") {
+		this.replacePending = mode === "replace";
+	}
+
+	async start() {
+		if (this.mode !== "replace") {
+			this.write("\n\n");
+		}
+		if (this.context.settings.responseFormatting === true) {
+			this.write(this.context.settings.responseFormatPrepend);
+		}
+	}
+
+	token(text: string) {
+		this.write(text);
+	}
+
+	async finish(response: string, streamed: boolean) {
+		const append = this.context.settings.responseFormatting === true ? this.context.settings.responseFormatAppend : "";
+		this.write(streamed ? append : response + append);
+		await this.insertion.commit();
+	}
+
+	async cancel() {
+		await this.insertion.commit();
+	}
+
+	private write(text: string) {
+		if (this.replacePending) {
+			this.replacePending = false;
+			this.insertion.replace(text);
+		} else {
+			this.insertion.insert(text);
+		}
+	}
+}
+
+// Buffers the answer and replaces the selection only after review
+class ReviewWriter implements OutputWriter {
+	constructor(private context: OutputContext, private insertion: AnchoredInsertion) { }
+
+	async start() { }
+
+	token(text: string) { }
+
+	async finish(response: string) {
+		const { app, selectedText } = this.context;
+		const decision = await reviewChanges(app, selectedText, response);
+		if (!decision.accepted) {
+			new Notice("Changes rejected");
+		} else if (decision.text !== selectedText) {
+			// Nothing to write when the accepted text is the selection itself
+			this.insertion.replace(decision.text);
+		}
+		await this.insertion.commit();
+	}
+
+	async cancel() {
+		await this.insertion.commit();
+	}
+}
+
+// Callouts are their own formatting, so the prepend/append settings do not apply
+class CalloutWriter implements OutputWriter {
+	constructor(private context: OutputContext, private insertion: AnchoredInsertion) { }
+
+	async start() {
+		const { settings, title } = this.context;
+		const calloutTitle = (settings.calloutTitle ?? "{title}").replace("{title}", title);
+		// A trailing - or + folds the callout: "note-" becomes [!note]-
+		const [, type, fold] = /^(.*?)([+-]?)$/.exec(settings.calloutType || "note")!;
+		this.insertion.insert("\n\n" + `> [!${type || "note"}]${fold} ${calloutTitle}`.trimEnd() + "\n> ");
+	}
+
+	token(text: string) {
+		this.insertion.insert(text.replace(/\n/g, "\n> "));
+	}
+
+	async finish(response: string, streamed: boolean) {
+		if (!streamed) {
+			this.token(response);
+		}
+		await this.insertion.commit();
+	}
+
+	async cancel() {
+		await this.insertion.commit();
+	}
+}
+
+class NoteWriter implements OutputWriter {
+	constructor(private context: OutputContext, private insertion: AnchoredInsertion) { }
+
+	async start() { }
+
+	token(text: string) { }
+
+	async finish(response: string) {
+		const { app, settings, title } = this.context;
+		const sourceFile = this.insertion.file;
+		const folder = normalizePath(settings.outputNoteFolder || sourceFile.parent?.path || "/");
+		if (folder !== "/" && !app.vault.getAbstractFileByPath(folder)) {
+			await app.vault.createFolder(folder);
+		}
+
+		// Characters Obsidian does not allow in file names
+		const baseName = `${title.replace(/[\\/:*?"<>|#^[\]]/g, "").trim() || "LLM response"} ${moment().format("YYYY-MM-DD HHmm")}`;
+		const prefix = folder === "/" ? "" : `${folder}/`;
+		let path = `${prefix}${baseName}.md`;
+		for (let i = 1; app.vault.getAbstractFileByPath(path); i++) {
+			path = `${prefix}${baseName} ${i}.md`;
+		}
+
+		const backlink = `Source: ${app.fileManager.generateMarkdownLink(sourceFile, path)}\n\n`;
+		const note = await app.vault.create(path, `${backlink}${response}\n`);
+		this.insertion.insert("\n\n" + app.fileManager.generateMarkdownLink(note, sourceFile.path));
+		await this.insertion.commit();
+		new Notice(`Response saved to ${note.basename}`);
+	}
+
+	async cancel() {
+		await this.insertion.commit();
+	}
+}
+
+class ClipboardWriter implements OutputWriter {
+	async start() { }
+
+	token(text: string) { }
+
+	async finish(response: string) {
+		await navigator.clipboard.writeText(response);
+		new Notice("Response copied to clipboard");
+	}
+
+	async cancel() { }
+}
+
+class PreviewWriter implements OutputWriter {
+	private view: ResponsePreviewView | null = null;
+	private streamedText = "";
+
+	constructor(private context: OutputContext, private sourceFile: TFile | null) { }
+
+	async start() {
+		this.view = await this.context.openPreview();
+		this.view?.begin(this.context.title, this.sourceFile?.path || "");
+	}
+
+	token(text: string) {
+		this.streamedText += text;
+		this.view?.append(text);
+	}
+
+	async finish(response: string) {
+		if (!this.view) {
+			new Notice("Preview pane is not available");
+			return;
+		}
+		this.view.finish(response);
+	}
+
+	async cancel() {
+		// Render what arrived so copy and insert work on the partial answer
+		this.view?.finish(this.streamedText);
+	}
+}
@@ -0,0 +1,72 @@
+import { OLocalLLMSettings } from "../main";
+
+/* Module Contract: Named connection profiles --> Describe alternative endpoints/models and overlay them on plugin settings --> Used by custom prompts, tagger, chat, RAG and web search to pick their model */
+
+export interface ProviderProfile {
+	id: string;
+	name: string;
+	providerType: string;
+	serverAddress: string;
+	llmModel: string;
+	openAIApiKey?: string; // Falls back to the main key only when the profile uses the main server
+	extraHeaders?: string; // "Name: value" lines, falls back to the main extra headers only when the profile uses the main server
+	temperature?: number; // Falls back to the global temperature when unset
+	maxTokens?: number;   // Falls back to the global max tokens when unset
+}
+
+// The top-level connection settings act as the implicit default profile
+export const DEFAULT_PROFILE_ID = "";
+export const DEFAULT_PROFILE_NAME = "Default (main settings)";
+
+/* Contract: Look up a profile by id --> Search settings.providerProfiles --> Return the profile, or undefined for the default/unknown id */
+export function findProfile(settings: OLocalLLMSettings, profileId?: string): ProviderProfile | undefined {
+	if (!profileId) return undefined;
+	return (settings.providerProfiles || []).find(profile => profile.id === profileId);
+}
+
+/* Contract: Compare two server addresses --> Ignore case, surrounding whitespace and trailing slashes --> True when both point at the same endpoint */
+export function isSameServer(a: string, b: string): boolean {
+	const normalize = (address: string) => address.trim().replace(/\/+$/, "").toLowerCase();
+	return normalize(a) === normalize(b);
+}
+
+/* Contract: Produce the effective settings for a profile --> Overlay endpoint, provider, model, key, headers and sampling defaults on a copy of the settings --> Return settings to hand to LLMClient or RAG, unchanged when no profile applies */
+export function resolveProfileSettings(settings: OLocalLLMSettings, profileId?: string): OLocalLLMSettings {
+	const profile = findProfile(settings, profileId);
+	if (!profile) return settings;
+
+	// The main credentials must never reach a different server
+	const sharesMainServer = isSameServer(profile.serverAddress, settings.serverAddress);
+	return {
+		...settings,
+		providerType: profile.providerType,
+		serverAddress: profile.serverAddress,
+		llmModel: profile.llmModel,
+		openAIApiKey: profile.openAIApiKey || (sharesMainServer ? settings.openAIApiKey : ""),
+		extraHeaders: profile.extraHeaders ?? (sharesMainServer ? settings.extraHeaders : ""),
+		temperature: profile.temperature ?? settings.temperature,
+		maxTokens: profile.maxTokens ?? settings.maxTokens,
+	};
+}
+
+/* Contract: Seed a new profile --> Copy the current main connection settings under a new id --> Return profile ready for editing */
+export function createProfileFromSettings(settings: OLocalLLMSettings, name: string): ProviderProfile {
+	return {
+		id: `profile_${Date.now()}`,
+		name,
+		providerType: settings.providerType,
+		serverAddress: settings.serverAddress,
+		llmModel: settings.llmModel,
+		openAIApiKey: settings.openAIApiKey,
+		extraHeaders: settings.extraHeaders,
+	};
+}
+
+/* Contract: List selectable profiles --> Combine the default entry with saved profiles --> Return id to display-name map for dropdowns */
+export function getProfileOptions(settings: OLocalLLMSettings): { [id: string]: string } {
+	const options: { [id: string]: string } = { [DEFAULT_PROFILE_ID]: DEFAULT_PROFILE_NAME };
+	for (const profile of settings.providerProfiles || []) {
+		options[profile.id] = profile.name;
+	}
+	return options;
+}
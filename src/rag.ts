@@ -3,12 +3,17 @@ import { MemoryVectorStore } from 'langchain/vectorstores/memory';
 import { TFile, Vault, Plugin } from 'obsidian';
 import { OllamaEmbeddings } from './ollamaEmbeddings';
 import { OpenAIEmbeddings } from './openAIEmbeddings';
+import { MockEmbeddings } from './mockEmbeddings';
 import { Ollama } from "@langchain/ollama";
 import { OpenAI } from "@langchain/openai";
 import { createRetrievalChain } from "langchain/chains/retrieval";
 import { createStuffDocumentsChain } from "langchain/chains/combine_documents";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { OLocalLLMSettings } from '../main';
+import { resolveProfileSettings } from './providerProfiles';
+import { splitByWords } from './markdownChunker';
+import { buildRequestHeaders } from './requestHeaders';
+import { LLMClient } from './llmClient';
 
 interface StoredEmbedding {
 	id: string;
@@ -31,9 +36,24 @@ interface EmbeddingData {
 
 const CHUNK_SIZE = 1000;
 
+const RAG_PROMPT = `Answer the following question based on the context:\n\nContext: {context}\nQuestion: {input}\nAnswer:`;
+
+type EmbeddingsProvider = OllamaEmbeddings | OpenAIEmbeddings | MockEmbeddings;
+
+/* Contract: Choose the embedding transport for the main settings --> Ollama, OpenAI-compatible, or local hashing for the mock provider --> Return embeddings for MemoryVectorStore */
+export function createEmbeddings(settings: OLocalLLMSettings): EmbeddingsProvider {
+	if (settings.providerType === 'mock') {
+		return new MockEmbeddings();
+	}
+	const headers = buildRequestHeaders(settings);
+	return settings.providerType === 'ollama'
+		? new OllamaEmbeddings(settings.serverAddress, settings.embeddingModelName, headers)
+		: new OpenAIEmbeddings(settings.openAIApiKey, settings.embeddingModelName, settings.serverAddress, headers);
+}
+
 export class RAGManager {
 	private vectorStore: MemoryVectorStore;
-	private embeddings: OllamaEmbeddings | OpenAIEmbeddings;
+	private embeddings: EmbeddingsProvider;
 	private indexedFiles: string[] = [];
 	private provider: string;
 	private isLoaded: boolean = false;
@@ -46,9 +66,7 @@ export class RAGManager {
 		this.provider = this.settings.providerType || 'ollama';
 
 		// Initialize embeddings based on provider
-		this.embeddings = this.provider === 'ollama'
-			? new OllamaEmbeddings(this.settings.serverAddress, this.settings.embeddingModelName)
-			: new OpenAIEmbeddings(this.settings.openAIApiKey, this.settings.embeddingModelName, this.settings.serverAddress);
+		this.embeddings = createEmbeddings(this.settings);
 
 		this.vectorStore = new MemoryVectorStore(this.embeddings);
 	}
@@ -80,9 +98,7 @@ export class RAGManager {
 		const providerChanged = this.settings.providerType !== settings.providerType;
 
 		// Reinitialize embeddings based on provider
-		this.embeddings = this.provider === 'ollama'
-			? new OllamaEmbeddings(settings.serverAddress, settings.embeddingModelName)
-			: new OpenAIEmbeddings(settings.openAIApiKey, settings.embeddingModelName, settings.serverAddress);
+		this.embeddings = createEmbeddings(settings);
 
 		// Update the vector store's embeddings reference so new indexing uses the current model
 		(this.vectorStore as any).embeddings = this.embeddings;
@@ -95,30 +111,35 @@ export class RAGManager {
 		console.log(`RAGManager settings updated - Provider: ${this.provider}, Model: ${settings.embeddingModelName}`);
 	}
 
-	async getRAGResponse(query: string): Promise<{ response: string, sources: string[] }> {
+	async getRAGResponse(query: string, signal?: AbortSignal): Promise<{ response: string, sources: string[] }> {
 		try {
 			const docs = await this.vectorStore.similaritySearch(query, 4);
 			if (docs.length === 0) throw new Error("No relevant documents found");
 
-			// Initialize LLM based on provider
-			const llm = this.provider === 'ollama'
+			// Initialize LLM based on the RAG profile (embeddings always use the main settings)
+			const llmSettings = resolveProfileSettings(this.settings, this.settings.ragProfileId);
+			if (llmSettings.providerType === 'mock') {
+				return await this.getMockRAGResponse(query, docs, llmSettings, signal);
+			}
+			const headers = buildRequestHeaders(llmSettings);
+			const llm = llmSettings.providerType === 'ollama'
 				? new Ollama({
-					baseUrl: this.settings.serverAddress,
-					model: this.settings.llmModel,
-					temperature: this.settings.temperature,
+					baseUrl: llmSettings.serverAddress,
+					model: llmSettings.llmModel,
+					temperature: llmSettings.temperature,
+					headers: new Headers(headers),
 				})
 				: new OpenAI({
-					openAIApiKey: this.settings.openAIApiKey || 'lm-studio',
-					modelName: this.settings.llmModel,
-					temperature: this.settings.temperature,
+					openAIApiKey: llmSettings.openAIApiKey || 'lm-studio',
+					modelName: llmSettings.llmModel,
+					temperature: llmSettings.temperature,
 					configuration: {
-						baseURL: this.settings.serverAddress,
+						baseURL: llmSettings.serverAddress,
+						defaultHeaders: headers,
 					},
 				});
 
-			const promptTemplate = PromptTemplate.fromTemplate(
-				`Answer the following question based on the context:\n\nContext: {context}\nQuestion: {input}\nAnswer:`
-			);
+			const promptTemplate = PromptTemplate.fromTemplate(RAG_PROMPT);
 
 			const documentChain = await createStuffDocumentsChain({ llm, prompt: promptTemplate });
 			const retrievalChain = await createRetrievalChain({
@@ -126,7 +147,7 @@ export class RAGManager {
 				retriever: this.vectorStore.asRetriever(4),
 			});
 
-			const result = await retrievalChain.invoke({ input: query });
+			const result = await retrievalChain.invoke({ input: query }, { signal });
 			const sources = [...new Set(result.context.map((doc: Document) => doc.metadata.source))];
 
 			return {
@@ -134,12 +155,31 @@ export class RAGManager {
 				sources: sources
 			};
 		} catch (error) {
+			if (signal?.aborted) {
+				// LangChain rejects with a plain "Aborted" error; normalise it for callers
+				throw new DOMException("RAG request cancelled", "AbortError");
+			}
 			console.error("RAG Error:", error);
 			throw error;
 		}
 	}
 
-	async indexNotes(progressCallback: (progress: number) => void): Promise<void> {
+	// LangChain has no transport for the mock provider; send the prompt the chain would build through LLMClient instead
+	private async getMockRAGResponse(query: string, docs: Document[], llmSettings: OLocalLLMSettings, signal?: AbortSignal): Promise<{ response: string, sources: string[] }> {
+		const prompt = RAG_PROMPT
+			.replace('{context}', docs.map(doc => doc.pageContent).join('\n\n'))
+			.replace('{input}', query);
+		const result = await new LLMClient(llmSettings).chat({ messages: [{ role: 'user', content: prompt }], stream: false }, { signal });
+		if (result.cancelled) {
+			throw new DOMException("RAG request cancelled", "AbortError");
+		}
+		return {
+			response: result.text,
+			sources: [...new Set(docs.map(doc => doc.metadata.source as string))],
+		};
+	}
+
+	async indexNotes(progressCallback: (progress: number) => void, signal?: AbortSignal): Promise<void> {
 		await this.initialize();
 		await this.waitForVaultReady();
 		console.log("Starting indexing process...");
@@ -151,7 +191,7 @@ export class RAGManager {
 		console.log(`Found ${totalFiles} markdown files to index.`);
 
 		if (totalFiles > 0) {
-			await this.processFiles(allFiles, progressCallback);
+			await this.processFiles(allFiles, progressCallback, signal);
 			
 			// Save embeddings to persistent storage after indexing
 			await this.saveEmbeddings();
@@ -162,12 +202,16 @@ export class RAGManager {
 		console.log(`Indexing complete. ${this.indexedFiles.length} files indexed.`);
 	}
 
-	private async processFiles(files: TFile[], progressCallback: (progress: number) => void): Promise<void> {
+	private async processFiles(files: TFile[], progressCallback: (progress: number) => void, signal?: AbortSignal): Promise<void> {
 		this.indexedFiles = []; // Reset indexed files
 		const totalFiles = files.length;
 		let successfullyIndexed = 0;
 
 		for (let i = 0; i < totalFiles; i++) {
+			if (signal?.aborted) {
+				// Stop before saving so a partial index never overwrites the stored embeddings
+				throw new DOMException("Indexing cancelled", "AbortError");
+			}
 			const file = files[i];
 			try {
 				console.log(`Processing file ${i + 1}/${totalFiles}: ${file.path}`);
@@ -201,23 +245,7 @@ export class RAGManager {
 	}
 
 	private splitIntoChunks(content: string, chunkSize: number): string[] {
-		const chunks: string[] = [];
-		let currentChunk = '';
-
-		content.split(/\s+/).forEach((word) => {
-			if (currentChunk.length + word.length + 1 <= chunkSize) {
-				currentChunk += (currentChunk ? ' ' : '') + word;
-			} else {
-				chunks.push(currentChunk);
-				currentChunk = word;
-			}
-		});
-
-		if (currentChunk) {
-			chunks.push(currentChunk);
-		}
-
-		return chunks;
+		return splitByWords(content, chunkSize);
 	}
 
 	async findSimilarNotes(query: string): Promise<string> {
@@ -251,6 +279,11 @@ export class RAGManager {
 		}
 	}
 
+	async searchNotes(query: string, limit: number = 4): Promise<{ source: string, content: string }[]> {
+		const docs = await this.vectorStore.similaritySearch(query, limit);
+		return docs.map(doc => ({ source: doc.metadata.source, content: doc.pageContent }));
+	}
+
 	getIndexedFilesCount(): number {
 		return this.indexedFiles.length;
 	}
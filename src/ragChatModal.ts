@@ -1,6 +1,7 @@
 import { App, Modal, TextComponent, ButtonComponent, Notice, setIcon } from "obsidian";
 import { OLocalLLMSettings } from "../main";
 import { RAGManager } from "./rag";
+import { JobRegistry, isAbortError } from "./jobRegistry";
 
 export class RAGChatModal extends Modal {
 	result: string = "";
@@ -8,11 +9,13 @@ export class RAGChatModal extends Modal {
 	conversationHistory: { prompt: string; response: string }[] = [];
 	submitButton: ButtonComponent;
 	ragManager: RAGManager;
+	jobs: JobRegistry;
 
-	constructor(app: App, settings: OLocalLLMSettings, ragManager: RAGManager) {
+	constructor(app: App, settings: OLocalLLMSettings, ragManager: RAGManager, jobs: JobRegistry) {
 		super(app);
 		this.pluginSettings = settings;
 		this.ragManager = ragManager;
+		this.jobs = jobs;
 	}
 
 	onOpen() {
@@ -68,7 +71,8 @@ export class RAGChatModal extends Modal {
 		this.scrollToBottom();
 
 		try {
-			const response = await this.ragManager.getRAGResponse(this.result);
+			const query = this.result;
+			const response = await this.jobs.run("Chat with notes", (signal) => this.ragManager.getRAGResponse(query, signal), { kind: "chat" });
 
 			// Create response container
 			const responseContainer = document.createElement('div');
@@ -112,9 +116,13 @@ export class RAGChatModal extends Modal {
 			this.scrollToBottom();
 
 		} catch (error) {
+			this.hideThinkingIndicator(chatHistoryEl);
+			if (isAbortError(error)) {
+				new Notice("Chat request cancelled");
+				return;
+			}
 			console.error("RAG Chat Error:", error);
 			new Notice("Error: " + (error.message || "Unknown error occurred"));
-			this.hideThinkingIndicator(chatHistoryEl);
 		}
 	}
 
@@ -0,0 +1,62 @@
+import { MarkdownPostProcessorContext, MarkdownView, TFile } from "obsidian";
+
+/* Module Contract: Run commands from reading view --> Remember the post processor context of every rendered block, map a DOM selection back to source offsets through its section info --> The selected markdown and where it lives in the file */
+
+export interface ReadingSelection {
+	file: TFile;
+	from: number; // Offsets into the file content
+	to: number;
+	text: string; // Source markdown, not the rendered text
+	blockEnd: number; // End of the last selected block, where "below the paragraph" output goes
+	blockText: string; // Source of the selected blocks up to blockEnd, to find that position again
+}
+
+// Rendered block elements and the context that can report their source lines
+const renderedSections = new WeakMap<HTMLElement, MarkdownPostProcessorContext>();
+
+/* Contract: Markdown post processor --> Record the block element with its context --> Registered once with registerMarkdownPostProcessor */
+export function trackReadingSection(el: HTMLElement, ctx: MarkdownPostProcessorContext) {
+	renderedSections.set(el, ctx);
+}
+
+/* Contract: Capture the selection of a note in reading view --> Find the blocks at both ends, take their source lines, narrow to the selected text when it appears unchanged in the source --> Return null when nothing in the note is selected */
+export function captureReadingSelection(view: MarkdownView): ReadingSelection | null {
+	const file = view.file;
+	const selection = view.containerEl.win.getSelection();
+	if (!file || !selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+	const range = selection.getRangeAt(0);
+	if (!view.previewMode.containerEl.contains(range.commonAncestorContainer)) return null;
+
+	const start = findSectionInfo(range.startContainer, file);
+	const end = findSectionInfo(range.endContainer, file);
+	if (!start || !end) return null;
+
+	// Every section info carries the whole file text
+	const source = start.text;
+	const lines = source.split("\n");
+	const lineOffset = (line: number) => lines.slice(0, line).reduce((offset, text) => offset + text.length + 1, 0);
+	const blockEnd = lineOffset(end.lineEnd) + (lines[end.lineEnd]?.length ?? 0);
+	const blockStart = lineOffset(start.lineStart);
+	let from = blockStart;
+	let to = blockEnd;
+
+	// Without markup the rendered text equals the source, so the exact selection can be used; otherwise whole blocks are
+	const rendered = selection.toString().trim();
+	const blockText = source.slice(from, to);
+	const index = rendered ? blockText.indexOf(rendered) : -1;
+	if (index !== -1 && blockText.indexOf(rendered, index + 1) === -1) {
+		from += index;
+		to = from + rendered.length;
+	}
+	return { file, from, to, text: source.slice(from, to), blockEnd, blockText: source.slice(blockStart, blockEnd) };
+}
+
+function findSectionInfo(node: Node, file: TFile) {
+	for (let el = node.nodeType === Node.ELEMENT_NODE ? node as HTMLElement : node.parentElement; el; el = el.parentElement) {
+		const ctx = renderedSections.get(el);
+		if (ctx && ctx.sourcePath === file.path) {
+			return ctx.getSectionInfo(el);
+		}
+	}
+	return null;
+}
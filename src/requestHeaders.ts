@@ -0,0 +1,35 @@
+import { OLocalLLMSettings } from "../main";
+
+/* Module Contract: Authenticate requests to the LLM server --> Turn the API key and the user's extra header lines into HTTP headers --> Sent with chat, streaming, tagging, model discovery, RAG and embedding requests */
+
+// RFC 7230 token characters; fetch rejects any other header name
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/* Contract: Parse the extra headers setting --> Read one "Name: value" pair per line, skipping blank lines, # comments and invalid names --> Return a header map */
+export function parseHeaderLines(text: string | undefined): Record<string, string> {
+	const headers: Record<string, string> = {};
+	for (const line of (text || "").split("\n")) {
+		const trimmed = line.trim();
+		if (!trimmed || trimmed.startsWith("#")) continue;
+
+		const separator = trimmed.indexOf(":");
+		const name = separator > 0 ? trimmed.slice(0, separator).trim() : "";
+		if (!HEADER_NAME_PATTERN.test(name)) {
+			console.warn(`Ignoring invalid header line: ${trimmed}`);
+			continue;
+		}
+		headers[name] = trimmed.slice(separator + 1).trim();
+	}
+	return headers;
+}
+
+/* Contract: Build the headers for a request to the configured server --> Add a bearer token for OpenAI-compatible servers, then the extra headers (which may override it) --> Return headers without Content-Type */
+export function buildRequestHeaders(settings: OLocalLLMSettings): Record<string, string> {
+	const extra = parseHeaderLines(settings.extraHeaders);
+	const overridesAuth = Object.keys(extra).some(name => name.toLowerCase() === "authorization");
+	// Ollama has no API key of its own; proxies in front of it can get a token through the extra headers
+	if (settings.providerType !== "ollama" && settings.openAIApiKey && !overridesAuth) {
+		return { Authorization: `Bearer ${settings.openAIApiKey}`, ...extra };
+	}
+	return extra;
+}
@@ -0,0 +1,111 @@
+import { DataAdapter } from "obsidian";
+
+/* Module Contract: Reuse answers to identical requests --> Hash endpoint, model, messages and sampling into a key, keep responses in a JSON file in the plugin folder with a TTL and a size cap --> Lets generateIntoEditor skip a full generation when the same prompt runs on the same text again */
+
+export interface ResponseCacheLimits {
+	ttlHours: number;  // Entries older than this are dropped, 0 keeps them until the size cap evicts them
+	maxSizeMB: number; // Oldest entries are evicted above this size
+}
+
+export interface ResponseCacheStats {
+	entries: number;
+	bytes: number;
+}
+
+interface CacheEntry {
+	response: string;
+	createdAt: number;
+}
+
+/* Contract: Derive a cache key --> SHA-256 over the JSON of everything that influences the answer --> Return a hex digest */
+export async function hashCacheKey(parts: object): Promise<string> {
+	const data = new TextEncoder().encode(JSON.stringify(parts));
+	const digest = await crypto.subtle.digest("SHA-256", data);
+	return Array.from(new Uint8Array(digest))
+		.map(byte => ("0" + byte.toString(16)).slice(-2))
+		.join("");
+}
+
+/* Class Contract: Persistent response cache --> Load the cache file on first use, expire and evict on every write, save after each change --> get/set/clear by hashed key */
+export class ResponseCache {
+	private entries: { [key: string]: CacheEntry } | null = null;
+
+	constructor(private adapter: DataAdapter, private path: string, private limits: () => ResponseCacheLimits) { }
+
+	/* Method Contract: Look up a response --> Load the cache, ignore expired entries --> Return the cached response or undefined */
+	async get(key: string): Promise<string | undefined> {
+		const entries = await this.load();
+		const entry = entries[key];
+		if (!entry || this.isExpired(entry, Date.now())) return undefined;
+		return entry.response;
+	}
+
+	/* Method Contract: Store a response --> Add the entry, drop expired and oldest entries above the size cap --> Cache file saved */
+	async set(key: string, response: string) {
+		const entries = await this.load();
+		entries[key] = { response, createdAt: Date.now() };
+		this.prune(entries);
+		await this.save();
+	}
+
+	/* Method Contract: Empty the cache --> Drop all entries and delete the cache file --> Next lookups miss */
+	async clear() {
+		this.entries = {};
+		if (await this.adapter.exists(this.path)) {
+			await this.adapter.remove(this.path);
+		}
+	}
+
+	async stats(): Promise<ResponseCacheStats> {
+		const entries = await this.load();
+		return {
+			entries: Object.keys(entries).length,
+			bytes: Object.keys(entries).reduce((total, key) => total + entrySize(key, entries[key]), 0),
+		};
+	}
+
+	private async load(): Promise<{ [key: string]: CacheEntry }> {
+		if (this.entries) return this.entries;
+		try {
+			this.entries = await this.adapter.exists(this.path)
+				? JSON.parse(await this.adapter.read(this.path))
+				: {};
+		} catch (error) {
+			console.error("Could not read the response cache, starting with an empty one:", error);
+			this.entries = {};
+		}
+		return this.entries!;
+	}
+
+	private async save() {
+		await this.adapter.write(this.path, JSON.stringify(this.entries));
+	}
+
+	private prune(entries: { [key: string]: CacheEntry }) {
+		const now = Date.now();
+		const maxBytes = Math.max(0, this.limits().maxSizeMB) * 1024 * 1024;
+		let total = 0;
+		// Newest first, so the oldest entries are the ones over the cap
+		const keys = Object.keys(entries).sort((a, b) => entries[b].createdAt - entries[a].createdAt);
+		for (const key of keys) {
+			if (this.isExpired(entries[key], now)) {
+				delete entries[key];
+				continue;
+			}
+			total += entrySize(key, entries[key]);
+			if (total > maxBytes) {
+				delete entries[key];
+			}
+		}
+	}
+
+	private isExpired(entry: CacheEntry, now: number): boolean {
+		const ttlHours = this.limits().ttlHours;
+		return ttlHours > 0 && now - entry.createdAt > ttlHours * 60 * 60 * 1000;
+	}
+}
+
+// UTF-16 length is close enough to the file size for a cap measured in megabytes
+function entrySize(key: string, entry: CacheEntry): number {
+	return key.length + entry.response.length + 32;
+}
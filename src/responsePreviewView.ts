@@ -0,0 +1,106 @@
+import { ItemView, MarkdownRenderer, MarkdownView, Notice, WorkspaceLeaf, setIcon } from "obsidian";
+
+/* Module Contract: Sidebar pane for answers that should not touch the note --> Show the streamed text live, render it as markdown when done, offer copy and insert --> Destination of the "preview" output mode */
+
+export const RESPONSE_PREVIEW_VIEW_TYPE = "llm-helper-preview";
+
+/* Class Contract: Response preview view --> begin() clears it for a new answer, append() adds streamed tokens, finish() renders the final markdown --> Lets users read an answer before deciding where it goes */
+export class ResponsePreviewView extends ItemView {
+	private title = "";
+	private text = "";
+	private sourcePath = "";
+	private generating = false;
+
+	constructor(leaf: WorkspaceLeaf) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return RESPONSE_PREVIEW_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "LLM preview";
+	}
+
+	getIcon(): string {
+		return "scroll-text";
+	}
+
+	async onOpen() {
+		this.render();
+	}
+
+	begin(title: string, sourcePath: string) {
+		this.title = title;
+		this.sourcePath = sourcePath;
+		this.text = "";
+		this.generating = true;
+		this.render();
+	}
+
+	append(token: string) {
+		this.text += token;
+		const streamEl = this.contentEl.querySelector(".llm-preview-stream");
+		if (streamEl) {
+			streamEl.textContent = this.text;
+		} else {
+			this.render();
+		}
+	}
+
+	finish(text: string) {
+		this.text = text;
+		this.generating = false;
+		this.render();
+	}
+
+	private render() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("llm-preview-view");
+
+		const header = container.createDiv({ cls: "llm-preview-header" });
+		header.createEl("h4", { text: this.title || "No response yet" });
+		const actions = header.createDiv({ cls: "llm-preview-actions" });
+		this.addIconButton(actions, "copy", "Copy", () => this.copy());
+		this.addIconButton(actions, "text-cursor-input", "Insert at cursor", () => this.insertAtCursor());
+
+		if (!this.title) {
+			container.createDiv({ text: "Prompts with the 'Show in preview pane' output mode write their answers here.", cls: "llm-preview-empty" });
+			return;
+		}
+		if (this.generating) {
+			// Raw text while streaming; rendering markdown on every token is too slow
+			container.createEl("pre", { text: this.text, cls: "llm-preview-stream" });
+			return;
+		}
+		const body = container.createDiv({ cls: "llm-preview-body markdown-rendered" });
+		MarkdownRenderer.render(this.app, this.text, body, this.sourcePath, this);
+	}
+
+	private async copy() {
+		if (!this.text) return;
+		await navigator.clipboard.writeText(this.text);
+		new Notice("Response copied to clipboard");
+	}
+
+	private insertAtCursor() {
+		if (!this.text) return;
+		// Clicking the pane makes it active, so look for the note that was used last
+		const leaf = this.app.workspace.getMostRecentLeaf(this.app.workspace.rootSplit);
+		const view = leaf?.view;
+		if (!(view instanceof MarkdownView)) {
+			new Notice("Open a note to insert the response into");
+			return;
+		}
+		view.editor.replaceSelection(this.text);
+	}
+
+	private addIconButton(container: HTMLElement, icon: string, label: string, onClick: () => void) {
+		const button = container.createEl("button", { cls: "clickable-icon", attr: { "aria-label": label } });
+		setIcon(button, icon);
+		button.disabled = this.generating || !this.text;
+		button.addEventListener("click", onClick);
+	}
+}
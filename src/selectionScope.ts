@@ -0,0 +1,137 @@
+import { StateEffect, StateField } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView } from "@codemirror/view";
+import { Editor, EditorPosition } from "obsidian";
+import { getEditorView } from "./anchoredInsertion";
+
+/* Module Contract: Work without a selection --> Resolve the paragraph, heading section, note body or rest of the note around the cursor, flash it --> Commands select that range and run as if the user had selected it */
+
+export type SelectionScope = "none" | "paragraph" | "section" | "note" | "toEnd";
+
+export const SELECTION_SCOPE_NAMES: Record<SelectionScope, string> = {
+	none: "Require a selection",
+	paragraph: "Current paragraph",
+	section: "Current heading section",
+	note: "Whole note (without frontmatter)",
+	toEnd: "From the cursor to the end",
+};
+
+export interface ScopeRange {
+	from: EditorPosition;
+	to: EditorPosition;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const FLASH_DURATION_MS = 800;
+
+/* Contract: Find the text a scope covers at the cursor --> Skip frontmatter, fenced code when looking for headings, and blank lines at both ends --> Return the range, or null when the scope holds no text */
+export function resolveScope(editor: Editor, scope: SelectionScope): ScopeRange | null {
+	const cursor = editor.getCursor();
+	const firstLine = bodyStartLine(editor);
+	const lastLine = editor.lineCount() - 1;
+	if (cursor.line < firstLine && scope !== "note") {
+		return null;
+	}
+
+	switch (scope) {
+		case "paragraph": {
+			if (isBlank(editor, cursor.line)) return null;
+			let start = cursor.line;
+			let end = cursor.line;
+			// A heading is a block of its own, even without blank lines around it
+			if (!isHeading(editor, cursor.line)) {
+				while (start > firstLine && !isBlank(editor, start - 1) && !isHeading(editor, start - 1)) start--;
+				while (end < lastLine && !isBlank(editor, end + 1) && !isHeading(editor, end + 1)) end++;
+			}
+			return trimLines(editor, start, end);
+		}
+		case "section": {
+			const headings = findHeadings(editor, firstLine);
+			const current = headings.filter(heading => heading.line <= cursor.line).pop();
+			const level = current?.level ?? 0;
+			// Text before the first heading ends at any heading; a section ends at the next heading of its level or above
+			const next = headings.find(heading => heading.line > (current?.line ?? cursor.line) && (level === 0 || heading.level <= level));
+			return trimLines(editor, current?.line ?? firstLine, next ? next.line - 1 : lastLine);
+		}
+		case "note":
+			return trimLines(editor, firstLine, lastLine);
+		case "toEnd": {
+			const range = trimLines(editor, cursor.line, lastLine);
+			if (!range) return null;
+			const from = range.from.line === cursor.line ? cursor : range.from;
+			return editor.getRange(from, range.to).trim() ? { from, to: range.to } : null;
+		}
+		default:
+			return null;
+	}
+}
+
+// Frontmatter is a block between --- lines at the very top of the note
+function bodyStartLine(editor: Editor): number {
+	if (editor.getLine(0) !== "---") return 0;
+	for (let line = 1; line < editor.lineCount(); line++) {
+		const text = editor.getLine(line);
+		if (text === "---" || text === "...") return line + 1;
+	}
+	return 0;
+}
+
+function findHeadings(editor: Editor, firstLine: number): { line: number; level: number }[] {
+	const headings: { line: number; level: number }[] = [];
+	let inFence = false;
+	for (let line = firstLine; line < editor.lineCount(); line++) {
+		const text = editor.getLine(line);
+		if (FENCE_PATTERN.test(text)) {
+			inFence = !inFence;
+			continue;
+		}
+		const match = inFence ? null : HEADING_PATTERN.exec(text);
+		if (match) {
+			headings.push({ line, level: match[1].length });
+		}
+	}
+	return headings;
+}
+
+function isBlank(editor: Editor, line: number): boolean {
+	return editor.getLine(line).trim() === "";
+}
+
+function isHeading(editor: Editor, line: number): boolean {
+	return HEADING_PATTERN.test(editor.getLine(line));
+}
+
+function trimLines(editor: Editor, start: number, end: number): ScopeRange | null {
+	while (start <= end && isBlank(editor, start)) start++;
+	while (end >= start && isBlank(editor, end)) end--;
+	if (start > end) return null;
+	return { from: { line: start, ch: 0 }, to: { line: end, ch: editor.getLine(end).length } };
+}
+
+const flashEffect = StateEffect.define<{ from: number; to: number } | null>();
+const flashMark = Decoration.mark({ class: "llm-scope-flash" });
+
+/* Contract: Editor extension for scope highlights --> Hold the flashed range and follow edits until it is cleared --> Registered once with registerEditorExtension */
+export const scopeHighlightField = StateField.define<DecorationSet>({
+	create: () => Decoration.none,
+	update(decorations, tr) {
+		decorations = decorations.map(tr.changes);
+		for (const effect of tr.effects) {
+			if (effect.is(flashEffect)) {
+				decorations = effect.value ? Decoration.set([flashMark.range(effect.value.from, effect.value.to)]) : Decoration.none;
+			}
+		}
+		return decorations;
+	},
+	provide: field => EditorView.decorations.from(field),
+});
+
+/* Contract: Show which text a command picked --> Highlight the range for a moment --> No-op for empty ranges */
+export function flashRange(editor: Editor, range: ScopeRange) {
+	const view = getEditorView(editor);
+	const from = editor.posToOffset(range.from);
+	const to = editor.posToOffset(range.to);
+	if (!view || from >= to) return;
+	view.dispatch({ effects: flashEffect.of({ from, to }) });
+	window.setTimeout(() => view.dispatch({ effects: flashEffect.of(null) }), FLASH_DURATION_MS);
+}
@@ -0,0 +1,163 @@
+/* Module Contract: Incremental parsing of streamed LLM responses --> Buffer partial lines across network chunks, decode SSE events and NDJSON records, stop on [DONE] --> Used by every streaming chat provider */
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+export interface StreamEvent {
+	event?: string; // SSE event name, undefined for the default "message" event and NDJSON
+	data: string;
+}
+
+export const SSE_DONE_MARKER = '[DONE]';
+
+/* Class Contract: Split text into complete lines --> Carry the unterminated tail over to the next chunk, accept \n, \r\n and \r endings --> Feed line-based parsers without losing split lines */
+export class LineBuffer {
+	private carry = '';
+
+	push(text: string): string[] {
+		let combined = this.carry + text;
+		// A trailing "\r" may be the first half of "\r\n"; hold it back until the next chunk
+		const heldCarriageReturn = combined.endsWith('\r');
+		if (heldCarriageReturn) {
+			combined = combined.slice(0, -1);
+		}
+		const lines = combined.split(/\r\n|\n|\r/);
+		this.carry = (lines.pop() || '') + (heldCarriageReturn ? '\r' : '');
+		return lines;
+	}
+
+	flush(): string[] {
+		const rest = this.carry.replace(/\r$/, '');
+		this.carry = '';
+		return rest ? [rest] : [];
+	}
+}
+
+/* Class Contract: Incremental Server-Sent Events parser --> Collect data/event fields per event, skip comments and unknown fields, dispatch on blank lines --> Emit complete StreamEvents regardless of chunk boundaries */
+export class SSEParser {
+	private lines = new LineBuffer();
+	private dataLines: string[] = [];
+	private eventName: string | undefined;
+
+	push(text: string): StreamEvent[] {
+		return this.processLines(this.lines.push(text));
+	}
+
+	/* Method Contract: Finish the stream --> Process the buffered tail and dispatch an event left without a trailing blank line --> Return remaining events */
+	flush(): StreamEvent[] {
+		const events = this.processLines(this.lines.flush());
+		const pending = this.dispatch();
+		return pending ? [...events, pending] : events;
+	}
+
+	private processLines(lines: string[]): StreamEvent[] {
+		const events: StreamEvent[] = [];
+		for (const line of lines) {
+			if (line === '') {
+				const event = this.dispatch();
+				if (event) events.push(event);
+				continue;
+			}
+			if (line.startsWith(':')) continue; // Comment / keep-alive
+
+			const colonIndex = line.indexOf(':');
+			const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+			let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+			if (value.startsWith(' ')) value = value.slice(1);
+
+			if (field === 'data') {
+				this.dataLines.push(value);
+			} else if (field === 'event') {
+				this.eventName = value;
+			}
+			// "id" and "retry" are irrelevant for one-shot completions
+		}
+		return events;
+	}
+
+	private dispatch(): StreamEvent | null {
+		if (this.dataLines.length === 0) {
+			this.eventName = undefined;
+			return null;
+		}
+		const event: StreamEvent = { event: this.eventName, data: this.dataLines.join('\n') };
+		this.dataLines = [];
+		this.eventName = undefined;
+		return event;
+	}
+}
+
+/* Class Contract: Incremental newline-delimited JSON parser --> Emit each non-empty line once it is complete --> Used for Ollama's native streaming format */
+export class NDJSONParser {
+	private lines = new LineBuffer();
+
+	push(text: string): StreamEvent[] {
+		return this.toEvents(this.lines.push(text));
+	}
+
+	flush(): StreamEvent[] {
+		return this.toEvents(this.lines.flush());
+	}
+
+	private toEvents(lines: string[]): StreamEvent[] {
+		return lines
+			.filter(line => line.trim() !== '')
+			.map(line => ({ data: line }));
+	}
+}
+
+export function createStreamParser(format: StreamFormat): SSEParser | NDJSONParser {
+	return format === 'sse' ? new SSEParser() : new NDJSONParser();
+}
+
+/* Contract: Consume a streamed HTTP body --> Decode bytes with a streaming TextDecoder, parse events, stop on [DONE] or when the signal aborts --> Call onEvent for every complete event and report whether the read was cancelled */
+export async function readEventStream(
+	reader: ReadableStreamDefaultReader<Uint8Array>,
+	format: StreamFormat,
+	onEvent: (event: StreamEvent) => void,
+	signal?: AbortSignal
+): Promise<{ cancelled: boolean }> {
+	const decoder = new TextDecoder();
+	const parser = createStreamParser(format);
+
+	// Returns true once the [DONE] sentinel has been seen
+	const emit = (events: StreamEvent[]): boolean => {
+		for (const event of events) {
+			if (event.data.trim() === SSE_DONE_MARKER) return true;
+			onEvent(event);
+		}
+		return false;
+	};
+
+	// Set once the server closed the stream; any other exit cancels it so the connection does not stay open
+	let ended = false;
+	try {
+		while (true) {
+			if (signal?.aborted) {
+				return { cancelled: true };
+			}
+
+			const { done, value } = await reader.read();
+			if (done) {
+				ended = true;
+				emit([...parser.push(decoder.decode()), ...parser.flush()]);
+				return { cancelled: false };
+			}
+
+			if (emit(parser.push(decoder.decode(value, { stream: true })))) {
+				return { cancelled: false };
+			}
+		}
+	} catch (error) {
+		// Aborting the fetch rejects the pending read; that is a cancellation, not a failure
+		if (signal?.aborted) {
+			return { cancelled: true };
+		}
+		throw error;
+	} finally {
+		// Covers [DONE], cancellation and errors thrown by onEvent, e.g. a server error chunk
+		if (!ended) {
+			await reader.cancel().catch(() => { });
+		}
+		reader.releaseLock();
+	}
+}
@@ -0,0 +1,178 @@
+import { ChatMessage, LLMClient, LLMClientError } from "./llmClient";
+
+/* Module Contract: Get JSON that matches a schema out of a chat model --> Request schema-constrained output, extract and validate the reply, feed validation errors back for a corrected answer --> Used by tagging, backlink generation and structured custom prompts */
+
+// Loose JSON schema object; validateJSON understands the common subset listed there
+export type JSONSchema = { [keyword: string]: any };
+
+// Accepted by every constrained-decoding backend and by the validator
+export const ANY_OBJECT_SCHEMA: JSONSchema = { type: "object" };
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+export interface StructuredRequest {
+	messages: ChatMessage[];
+	schema: JSONSchema;
+	maxAttempts?: number; // Total requests including repairs, defaults to 3
+	signal?: AbortSignal;
+}
+
+export interface StructuredResult<T> {
+	value: T;
+	text: string;             // Raw reply that produced value
+	attempts: number;
+	completionTokens: number; // Summed over all attempts when the server reports usage
+}
+
+export class StructuredOutputError extends Error {
+	constructor(message: string, public errors: string[], public text: string) {
+		super(message);
+		this.name = "StructuredOutputError";
+	}
+}
+
+/* Contract: Recover JSON from a model reply --> Strip code fences and surrounding prose, drop trailing commas as a last repair --> Return the parsed value, or throw SyntaxError when nothing parses */
+export function parseJSONReply(text: string): unknown {
+	const fenced = /```(?:json)?\s*\n?([\s\S]*?)```/i.exec(text);
+	const candidate = (fenced ? fenced[1] : text).trim();
+
+	const attempts = [candidate];
+	const start = candidate.search(/[{[]/);
+	const end = Math.max(candidate.lastIndexOf("}"), candidate.lastIndexOf("]"));
+	if (start !== -1 && end > start) {
+		const sliced = candidate.slice(start, end + 1);
+		attempts.push(sliced, sliced.replace(/,\s*([}\]])/g, "$1"));
+	}
+
+	let lastError: unknown;
+	for (const attempt of attempts) {
+		try {
+			return JSON.parse(attempt);
+		} catch (error) {
+			lastError = error;
+		}
+	}
+	throw lastError;
+}
+
+/* Contract: Check a value against a JSON schema --> Support type, enum, const, properties, required, additionalProperties, items and length/range limits --> Return human-readable errors, empty when valid */
+export function validateJSON(value: unknown, schema: JSONSchema, path = "$"): string[] {
+	const errors: string[] = [];
+
+	if (schema.type !== undefined) {
+		const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!types.some(type => matchesType(value, type))) {
+			return [`${path} should be ${types.join(" or ")}`];
+		}
+	}
+	if (schema.enum && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+		errors.push(`${path} should be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(", ")}`);
+	}
+	if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+		errors.push(`${path} should be ${JSON.stringify(schema.const)}`);
+	}
+
+	if (typeof value === "string") {
+		if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path} should have at least ${schema.minLength} characters`);
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path} should have at most ${schema.maxLength} characters`);
+	}
+	if (typeof value === "number") {
+		if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} should be >= ${schema.minimum}`);
+		if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} should be <= ${schema.maximum}`);
+	}
+
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path} should have at least ${schema.minItems} items`);
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path} should have at most ${schema.maxItems} items`);
+		if (schema.items) {
+			value.forEach((item, index) => errors.push(...validateJSON(item, schema.items, `${path}[${index}]`)));
+		}
+	} else if (value !== null && typeof value === "object") {
+		const record = value as Record<string, unknown>;
+		const properties: Record<string, JSONSchema> = schema.properties || {};
+		for (const key of schema.required || []) {
+			if (!(key in record)) errors.push(`${path}.${key} is required`);
+		}
+		for (const [key, propertyValue] of Object.entries(record)) {
+			if (properties[key]) {
+				errors.push(...validateJSON(propertyValue, properties[key], `${path}.${key}`));
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}.${key} is not allowed`);
+			} else if (typeof schema.additionalProperties === "object") {
+				errors.push(...validateJSON(propertyValue, schema.additionalProperties, `${path}.${key}`));
+			}
+		}
+	}
+
+	return errors;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	switch (type) {
+		case "object": return value !== null && typeof value === "object" && !Array.isArray(value);
+		case "array": return Array.isArray(value);
+		case "integer": return Number.isInteger(value);
+		case "null": return value === null;
+		default: return typeof value === type;
+	}
+}
+
+/* Contract: Run a chat request that must answer with schema-valid JSON --> Constrain decoding where the server supports it, validate the reply and ask for a correction with the errors --> Return the parsed value, throw StructuredOutputError after maxAttempts or AbortError when cancelled */
+export async function requestStructured<T = unknown>(client: LLMClient, request: StructuredRequest): Promise<StructuredResult<T>> {
+	const maxAttempts = request.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+	const messages = withSchemaInstruction(request.messages, request.schema);
+	let constrained = true;
+	let completionTokens = 0;
+	let errors: string[] = [];
+	let text = "";
+
+	for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+		let result;
+		try {
+			result = await client.chat({ messages, stream: false, jsonSchema: constrained ? request.schema : undefined }, { signal: request.signal });
+		} catch (error) {
+			// Servers without json_schema support reject the request; the prompt instruction and validation still apply
+			if (constrained && error instanceof LLMClientError && error.status === 400) {
+				console.warn("Server rejected the JSON schema, retrying without constrained output:", error.body);
+				constrained = false;
+				attempt--;
+				continue;
+			}
+			throw error;
+		}
+		if (result.cancelled) {
+			throw new DOMException("Structured request cancelled", "AbortError");
+		}
+		completionTokens += result.completionTokens ?? 0;
+		text = result.content || result.text;
+
+		try {
+			const value = parseJSONReply(text);
+			errors = validateJSON(value, request.schema);
+			if (errors.length === 0) {
+				return { value: value as T, text, attempts: attempt, completionTokens };
+			}
+		} catch (error) {
+			errors = [`The reply is not valid JSON (${error instanceof Error ? error.message : String(error)})`];
+		}
+
+		console.warn(`Structured output attempt ${attempt} failed:`, errors, text);
+		messages.push(
+			{ role: "assistant", content: text },
+			{ role: "user", content: `That reply does not match the required JSON schema:\n- ${errors.join("\n- ")}\n\nReply again with only the corrected JSON.` }
+		);
+	}
+
+	throw new StructuredOutputError(`No valid JSON after ${maxAttempts} attempts: ${errors.join("; ")}`, errors, text);
+}
+
+function withSchemaInstruction(messages: ChatMessage[], schema: JSONSchema): ChatMessage[] {
+	const instruction = `Respond only with JSON that matches this JSON schema, without any other text:\n${JSON.stringify(schema)}`;
+	const copy = messages.map(message => ({ ...message }));
+	if (copy[0]?.role === "system") {
+		copy[0].content = `${copy[0].content}\n\n${instruction}`;
+	} else {
+		copy.unshift({ role: "system", content: instruction });
+	}
+	return copy;
+}
@@ -0,0 +1,51 @@
+import { App, Modal, Setting } from "obsidian";
+
+// Long note contents are cut in the preview, the full text is still written
+const PREVIEW_LENGTH = 1500;
+
+/* Class Contract: Ask before a chat tool changes the vault --> Show the action and its arguments with Allow/Deny buttons --> Resolve true only when the user allows it */
+export class ToolConfirmModal extends Modal {
+	private allowed = false;
+
+	constructor(app: App, private action: string, private details: { [label: string]: string }, private onDecide: (allowed: boolean) => void) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Allow chat action?" });
+		contentEl.createEl("p", { text: this.action });
+
+		for (const [label, value] of Object.entries(this.details)) {
+			contentEl.createEl("div", { text: label, cls: "llm-tool-confirm-label" });
+			const preview = value.length > PREVIEW_LENGTH ? `${value.slice(0, PREVIEW_LENGTH)}\n…` : value;
+			contentEl.createEl("pre", { text: preview, cls: "llm-tool-confirm-value" });
+		}
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText("Allow")
+				.setCta()
+				.onClick(() => this.decide(true)))
+			.addButton(btn => btn
+				.setButtonText("Deny")
+				.onClick(() => this.decide(false)));
+	}
+
+	private decide(allowed: boolean) {
+		this.allowed = allowed;
+		this.close();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onDecide(this.allowed);
+	}
+}
+
+/* Contract: Confirm a vault write requested by the model --> Open ToolConfirmModal --> Resolve true when allowed, false when denied or dismissed */
+export function confirmToolAction(app: App, action: string, details: { [label: string]: string }): Promise<boolean> {
+	return new Promise(resolve => new ToolConfirmModal(app, action, details, resolve).open());
+}
@@ -0,0 +1,18 @@
+/* Module Contract: Read link targets out of markdown --> Match [[wiki]] links and ![[embeds]], decode %-escaped paths --> Shared by the image embed and audio file lookups */
+
+// Captures the link path; the #heading and |alias parts are matched but dropped
+const WIKI_LINK_SOURCE = String.raw`\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]`;
+
+/* Contract: Build a wiki link matcher --> Match ![[embeds]] only, or plain [[links]] as well --> Return a new global RegExp whose first group is the link path */
+export function wikiLinkPattern(embedsOnly: boolean): RegExp {
+	return new RegExp((embedsOnly ? "!" : "!?") + WIKI_LINK_SOURCE, "g");
+}
+
+// Markdown links may be URL-encoded (my%20file.png); a stray % must not throw
+export function safeDecode(link: string): string {
+	try {
+		return decodeURIComponent(link);
+	} catch (error) {
+		return link;
+	}
+}
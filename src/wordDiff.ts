@@ -0,0 +1,140 @@
+/* Module Contract: Compare a selection with its rewrite --> Myers diff over word, whitespace and punctuation tokens, grouped into hunks --> Input for the diff review modal */
+
+export type DiffSegment =
+	| { type: "equal"; text: string }
+	| { type: "change"; original: string; replacement: string };
+
+// Words, whitespace runs and single punctuation marks; works for any script, not only ASCII
+const TOKEN_PATTERN = /\s+|[^\s.,;:!?()[\]{}"'`«»“”„]+|[^\s]/g;
+
+// Beyond this many token edits the rewrite is treated as one change; keeps memory bounded on unrelated texts
+const MAX_EDIT_DISTANCE = 2000;
+
+type DiffOp = { type: "equal" | "insert" | "delete"; token: string };
+
+/* Contract: Diff two texts by word --> Tokenise, run Myers' algorithm, merge changes separated only by whitespace --> Return equal and change segments that rebuild either text */
+export function diffWords(original: string, replacement: string): DiffSegment[] {
+	const a = original.match(TOKEN_PATTERN) || [];
+	const b = replacement.match(TOKEN_PATTERN) || [];
+	const ops = myersDiff(a, b);
+	if (!ops) {
+		return original === replacement
+			? [{ type: "equal", text: original }]
+			: [{ type: "change", original, replacement }];
+	}
+	return mergeWhitespaceGaps(toSegments(ops));
+}
+
+/* Contract: Rebuild the text after review --> Take the replacement of accepted changes and the original of rejected ones --> Return the text to write into the note */
+export function applySegments(segments: DiffSegment[], accepted: boolean[]): string {
+	let changeIndex = 0;
+	return segments.map(segment => {
+		if (segment.type === "equal") return segment.text;
+		return accepted[changeIndex++] ? segment.replacement : segment.original;
+	}).join("");
+}
+
+// Returns null when the edit distance exceeds MAX_EDIT_DISTANCE
+function myersDiff(a: string[], b: string[]): DiffOp[] | null {
+	const n = a.length;
+	const m = b.length;
+	const maxD = Math.min(n + m, MAX_EDIT_DISTANCE);
+	const offset = maxD + 1;
+	const v = new Int32Array(2 * maxD + 3);
+	// trace[d] holds v for diagonals -d..d before step d, indexed k + d
+	const trace: Int32Array[] = [];
+
+	for (let d = 0; d <= maxD; d++) {
+		trace.push(v.slice(offset - d, offset + d + 1));
+		for (let k = -d; k <= d; k += 2) {
+			let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+				? v[offset + k + 1]
+				: v[offset + k - 1] + 1;
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+			if (x >= n && y >= m) {
+				return backtrack(trace, a, b, d);
+			}
+		}
+	}
+	return null;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[], distance: number): DiffOp[] {
+	const ops: DiffOp[] = [];
+	let x = a.length;
+	let y = b.length;
+
+	for (let d = distance; d > 0; d--) {
+		const v = trace[d];
+		const k = x - y;
+		const prevK = k === -d || (k !== d && v[k - 1 + d] < v[k + 1 + d]) ? k + 1 : k - 1;
+		const prevX = v[prevK + d];
+		const prevY = prevX - prevK;
+		while (x > prevX && y > prevY) {
+			ops.push({ type: "equal", token: a[--x] });
+			y--;
+		}
+		if (x === prevX) {
+			ops.push({ type: "insert", token: b[--y] });
+		} else {
+			ops.push({ type: "delete", token: a[--x] });
+		}
+	}
+	while (x > 0 && y > 0) {
+		ops.push({ type: "equal", token: a[--x] });
+		y--;
+	}
+	return ops.reverse();
+}
+
+function toSegments(ops: DiffOp[]): DiffSegment[] {
+	const segments: DiffSegment[] = [];
+	for (const op of ops) {
+		const last = segments[segments.length - 1];
+		if (op.type === "equal") {
+			if (last?.type === "equal") {
+				last.text += op.token;
+			} else {
+				segments.push({ type: "equal", text: op.token });
+			}
+			continue;
+		}
+		const change = last?.type === "change" ? last : { type: "change" as const, original: "", replacement: "" };
+		if (change !== last) segments.push(change);
+		if (op.type === "delete") {
+			change.original += op.token;
+		} else {
+			change.replacement += op.token;
+		}
+	}
+	return segments;
+}
+
+// "the big dog" -> "a small cat" reads better as one change than three
+function mergeWhitespaceGaps(segments: DiffSegment[]): DiffSegment[] {
+	const merged: DiffSegment[] = [];
+	for (let i = 0; i < segments.length; i++) {
+		const segment = segments[i];
+		const previous = merged[merged.length - 1];
+		const next = segments[i + 1];
+		if (segment.type === "equal" && /^[ \t]+$/.test(segment.text) && previous?.type === "change" && next?.type === "change") {
+			previous.original += segment.text + next.original;
+			previous.replacement += segment.text + next.replacement;
+			i++;
+			continue;
+		}
+		if (segment.type === "change" && previous?.type === "change") {
+			previous.original += segment.original;
+			previous.replacement += segment.replacement;
+			continue;
+		}
+		// Copies, because later changes are merged into these in place
+		merged.push({ ...segment });
+	}
+	return merged;
+}
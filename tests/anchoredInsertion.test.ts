@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { App, TFile } from "obsidian";
+import { Notice } from "./obsidian";
+import { AnchoredInsertion } from "../src/anchoredInsertion";
+
+// A vault holding one file, changed only through process() like Obsidian's
+function fakeVault(initial: string) {
+	const vault = {
+		data: initial,
+		process: vi.fn(async (file: TFile, update: (data: string) => string) => {
+			vault.data = update(vault.data);
+			return vault.data;
+		}),
+	};
+	return vault;
+}
+
+const FILE = { path: "note.md", basename: "note" } as TFile;
+
+describe("AnchoredInsertion in a file", () => {
+	let clipboard: string;
+
+	beforeEach(() => {
+		clipboard = "";
+		Notice.messages = [];
+		vi.stubGlobal("navigator", { clipboard: { writeText: async (text: string) => { clipboard = text; } } });
+		vi.stubGlobal("window", globalThis); // Writes are batched with window.setTimeout
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	it("replaces the tracked range and appends streamed text to it", async () => {
+		const vault = fakeVault("Intro\n\nold text\n\nOutro");
+		const insertion = AnchoredInsertion.inFile({ vault } as unknown as App, FILE, 7, 15, "old text");
+
+		insertion.replace("new");
+		insertion.insert(" answer");
+		await insertion.commit();
+
+		expect(vault.data).toBe("Intro\n\nnew answer\n\nOutro");
+	});
+
+	it("finds the range again when text was added before it", async () => {
+		const vault = fakeVault("Intro\n\nold text\n\nOutro");
+		const insertion = AnchoredInsertion.inFile({ vault } as unknown as App, FILE, 7, 15, "old text");
+		vault.data = "A new first line\n" + vault.data;
+
+		insertion.replace("new answer");
+		await insertion.commit();
+
+		expect(vault.data).toBe("A new first line\nIntro\n\nnew answer\n\nOutro");
+	});
+
+	it("writes nothing and copies the answer when the range is gone", async () => {
+		const vault = fakeVault("Intro\n\nold text\n\nOutro");
+		const insertion = AnchoredInsertion.inFile({ vault } as unknown as App, FILE, 7, 15, "old text");
+		vault.data = "Intro\n\nrewritten by hand\n\nOutro";
+
+		insertion.replace("new");
+		insertion.insert(" answer");
+		await insertion.commit();
+
+		expect(vault.data).toBe("Intro\n\nrewritten by hand\n\nOutro");
+		expect(clipboard).toBe("new answer");
+		expect(Notice.messages).toHaveLength(1);
+	});
+
+	it("checks the text before an empty range, not just its offset", async () => {
+		const vault = fakeVault("First\n\nSelected words\n\nLast");
+		const insertion = AnchoredInsertion.inFile({ vault } as unknown as App, FILE, 21, 21, "", "Selected words");
+		vault.data = "First, longer\n\nSelected words\n\nLast";
+
+		insertion.insert(" answer");
+		await insertion.commit();
+
+		expect(vault.data).toBe("First, longer\n\nSelected words answer\n\nLast");
+	});
+
+	it("does not guess between several copies of the range", async () => {
+		const vault = fakeVault("old text\n\nold text");
+		const insertion = AnchoredInsertion.inFile({ vault } as unknown as App, FILE, 0, 8, "old text");
+		vault.data = "x" + vault.data;
+
+		insertion.replace("new");
+		await insertion.commit();
+
+		expect(vault.data).toBe("xold text\n\nold text");
+	});
+
+	it("collects streamed tokens into one file write per interval", async () => {
+		vi.useFakeTimers();
+		const vault = fakeVault("Question\n");
+		const insertion = AnchoredInsertion.inFile({ vault } as unknown as App, FILE, 9, 9, "");
+
+		for (const token of ["The ", "answer ", "is ", "42"]) insertion.insert(token);
+		expect(vault.process).not.toHaveBeenCalled();
+
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(vault.process).toHaveBeenCalledTimes(1);
+		expect(vault.data).toBe("Question\nThe answer is 42");
+
+		insertion.insert(".");
+		await insertion.commit();
+		expect(vault.process).toHaveBeenCalledTimes(2);
+		expect(vault.data).toBe("Question\nThe answer is 42.");
+	});
+});
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// Buffered requests go through Obsidian's requestUrl, which is not bound by CORS
+const requestUrl = vi.hoisted(() => vi.fn());
+vi.mock("obsidian", () => ({ requestUrl }));
+
+import { postJSON } from "../src/llmClient";
+
+describe("postJSON", () => {
+	afterEach(() => {
+		requestUrl.mockReset();
+		vi.unstubAllGlobals();
+	});
+
+	it("uses requestUrl even when the request can be cancelled", async () => {
+		const fetchSpy = vi.fn();
+		vi.stubGlobal("fetch", fetchSpy);
+		requestUrl.mockResolvedValue({ status: 200, text: '{"ok":true}' });
+
+		const response = await postJSON("http://localhost:1234/v1/chat/completions", { a: 1 }, new AbortController().signal, { "X-Test": "1" });
+
+		expect(response).toEqual({ status: 200, text: '{"ok":true}', json: { ok: true } });
+		expect(fetchSpy).not.toHaveBeenCalled();
+		expect(requestUrl).toHaveBeenCalledWith(expect.objectContaining({
+			method: "POST",
+			body: '{"a":1}',
+			headers: { "Content-Type": "application/json", "X-Test": "1" },
+			throw: false,
+		}));
+	});
+
+	it("rejects with an AbortError as soon as the signal aborts and ignores the late reply", async () => {
+		let answer: (value: unknown) => void = () => { };
+		requestUrl.mockReturnValue(new Promise(resolve => { answer = resolve; }));
+		const controller = new AbortController();
+
+		const request = postJSON("http://localhost:1234/v1/chat/completions", {}, controller.signal);
+		controller.abort();
+
+		await expect(request).rejects.toMatchObject({ name: "AbortError" });
+		answer({ status: 200, text: "{}" });
+	});
+
+	it("does not send a request that was cancelled before it started", async () => {
+		requestUrl.mockResolvedValue({ status: 200, text: "{}" });
+		const controller = new AbortController();
+		controller.abort();
+
+		await expect(postJSON("http://localhost:1234", {}, controller.signal)).rejects.toMatchObject({ name: "AbortError" });
+	});
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { estimateMessagesTokens } from "../src/contextBudget";
+import { ChatMessage, ChatResult, LLMClient } from "../src/llmClient";
+import { runMapReduce } from "../src/mapReduce";
+
+const CONTEXT_LENGTH = 1024;
+const MAX_OUTPUT_TOKENS = 256;
+
+// Answers every request with a long result, the way a verbose model ignores "be brief"
+function verboseClient(answerTokens: number) {
+	const requests: ChatMessage[][] = [];
+	const client = {
+		chat: async ({ messages }: { messages: ChatMessage[] }): Promise<ChatResult> => {
+			requests.push(messages);
+			const text = `Part ${requests.length} ` + "a".repeat(answerTokens * 4);
+			return { text, content: text, reasoning: "", cancelled: false };
+		},
+	} as unknown as LLMClient;
+	return { client, requests };
+}
+
+function run(client: LLMClient, text: string) {
+	return runMapReduce(client, {
+		systemPrompt: "You are a helpful assistant.",
+		instruction: "Summarize",
+		text,
+		buildUserMessage: chunk => `Summarize\n\n${chunk}`,
+		reducePrompt: "Combine the partial results.",
+		contextLength: CONTEXT_LENGTH,
+		maxOutputTokens: MAX_OUTPUT_TOKENS,
+		signal: new AbortController().signal,
+	});
+}
+
+describe("runMapReduce", () => {
+	const longText = Array.from({ length: 12 }, (_, i) => `## Section ${i}\n\n` + "word ".repeat(400)).join("\n\n");
+
+	it("keeps every request inside the context window when no two partials fit one reduce request", async () => {
+		const { client, requests } = verboseClient(600);
+
+		const final = await run(client, longText);
+
+		for (const messages of [...requests, final]) {
+			expect(estimateMessagesTokens(messages)).toBeLessThanOrEqual(CONTEXT_LENGTH - MAX_OUTPUT_TOKENS);
+		}
+		expect(requests.some(messages => messages[1].content.includes("[…]"))).toBe(true);
+	});
+
+	it("sends partials that fit unchanged", async () => {
+		const { client } = verboseClient(20);
+
+		const final = await run(client, longText);
+
+		expect(final[1].content).not.toContain("[…]");
+		expect(final[1].content).toContain("Part 1 ");
+	});
+});
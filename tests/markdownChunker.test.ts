@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { splitByWords, splitMarkdown } from "../src/markdownChunker";
+
+describe("splitByWords", () => {
+	it("packs words into chunks under the size limit", () => {
+		expect(splitByWords("one two three four", 9)).toEqual(["one two", "three", "four"]);
+	});
+
+	it("gives an oversized word its own chunk without an empty chunk before it", () => {
+		expect(splitByWords("averyveryverylongword short", 5)).toEqual(["averyveryverylongword", "short"]);
+		expect(splitByWords("ab averyveryverylongword", 5)).toEqual(["ab", "averyveryverylongword"]);
+	});
+
+	it("ignores leading and trailing whitespace", () => {
+		expect(splitByWords("  \n one two \n", 20)).toEqual(["one two"]);
+		expect(splitByWords("   ", 20)).toEqual([]);
+	});
+});
+
+describe("splitMarkdown", () => {
+	it("word-splits a block larger than the limit into non-empty chunks", () => {
+		const chunks = splitMarkdown("# Title\n\n" + "word ".repeat(20).trim(), 30);
+		expect(chunks.every(chunk => chunk.length > 0)).toBe(true);
+		expect(chunks.join(" ").split(/\s+/).filter(word => word === "word")).toHaveLength(20);
+	});
+});
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { OLocalLLMSettings } from "../main";
+import { LLMClient } from "../src/llmClient";
+import { MockChatProvider, sampleForSchema } from "../src/mockChatProvider";
+import { MOCK_EMBEDDING_DIMENSIONS, MockEmbeddings } from "../src/mockEmbeddings";
+
+const MOCK_SETTINGS = {
+	providerType: "mock",
+	serverAddress: "",
+	llmModel: "prompt-draft",
+	temperature: 0.2,
+	maxTokens: 500,
+	stream: false,
+	personas: "default",
+	mockReasoning: "off",
+	mockStreamDelayMs: 0,
+} as OLocalLLMSettings;
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe("MockChatProvider", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("echoes the resolved request without touching the network", async () => {
+		const fetchSpy = vi.fn();
+		vi.stubGlobal("fetch", fetchSpy);
+
+		const result = await new LLMClient(MOCK_SETTINGS, { topP: 0.9 }).chat({
+			messages: [{ role: "system", content: "Be brief." }, { role: "user", content: "Summarize: hello" }],
+		});
+
+		expect(fetchSpy).not.toHaveBeenCalled();
+		expect(result.text).toContain("Model: prompt-draft");
+		expect(result.text).toContain("Temperature: 0.2, max tokens: 500, stream: off");
+		expect(result.text).toContain("Sampling: top_p 0.9");
+		expect(result.text).toContain("#### user\nSummarize: hello");
+	});
+
+	it("streams the same transcript it returns buffered", async () => {
+		vi.stubGlobal("window", globalThis); // The provider paces chunks with window.setTimeout
+		const request = { model: "m", messages: [{ role: "user" as const, content: "one two three" }], temperature: 0, maxTokens: 10 };
+		const provider = new MockChatProvider({ reasoning: "field", streamDelayMs: 0 });
+
+		const buffered = await provider.chat({ ...request, stream: false }, {});
+		const tokens: string[] = [];
+		const streamed = await provider.chat({ ...request, stream: true }, { onToken: token => tokens.push(token) });
+
+		expect(streamed.content).toBe(buffered.content.replace("stream: off", "stream: on"));
+		expect(streamed.reasoning).toBe(buffered.reasoning);
+		expect(tokens.join("")).toBe(streamed.reasoning + streamed.content);
+	});
+
+	it("answers structured requests with a value matching the schema", () => {
+		const sample = sampleForSchema({
+			type: "object",
+			properties: { tags: { type: "array", items: { type: "string" }, minItems: 2 }, score: { type: "integer", minimum: 1 } },
+			required: ["tags", "score"],
+		});
+		expect(sample).toEqual({ tags: ["mock", "mock"], score: 1 });
+	});
+});
+
+describe("MockEmbeddings", () => {
+	it("returns the same normalised vector for the same text", async () => {
+		const embeddings = new MockEmbeddings();
+		const [first, second] = await embeddings.embedDocuments(["Meeting notes about the garden", "Meeting notes about the garden"]);
+
+		expect(first).toHaveLength(MOCK_EMBEDDING_DIMENSIONS);
+		expect(first).toEqual(second);
+		expect(cosine(first, first)).toBeCloseTo(1);
+	});
+
+	it("ranks texts that share words above unrelated ones", async () => {
+		const embeddings = new MockEmbeddings();
+		const query = await embeddings.embedQuery("garden tomatoes");
+		const [related, unrelated] = await embeddings.embedDocuments(["Planting tomatoes in the garden", "Quarterly tax report"]);
+
+		expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+	});
+});
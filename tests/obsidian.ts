@@ -0,0 +1,13 @@
+/* Module Contract: Runtime stand-in for the obsidian package in tests --> Export the values the tested modules import --> Tests mock them where a call is expected */
+
+export function requestUrl(): never {
+	throw new Error("requestUrl is not available in tests");
+}
+
+export class Notice {
+	static messages: string[] = [];
+
+	constructor(message: string) {
+		Notice.messages.push(message);
+	}
+}
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { OLocalLLMSettings } from "../main";
+import { LLMClient, LLMClientError, OpenAIChatProvider, ProviderChatRequest } from "../src/llmClient";
+
+const REQUEST: ProviderChatRequest = {
+	model: "test-model",
+	messages: [{ role: "user", content: "Hi" }],
+	temperature: 0.7,
+	maxTokens: 100,
+	stream: true,
+};
+
+// Answers the next fetch with an SSE body delivered in the given pieces
+function respondWith(pieces: string[]) {
+	const encoder = new TextEncoder();
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const piece of pieces) controller.enqueue(encoder.encode(piece));
+			controller.close();
+		},
+	});
+	vi.stubGlobal("fetch", vi.fn(async () => new Response(body, { status: 200 })));
+}
+
+describe("OpenAIChatProvider streaming", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("collects tokens from chunks cut in the middle of an event", async () => {
+		respondWith([
+			'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choi',
+			'ces":[{"delta":{"content":"lo"}}]}\n\ndata: {"usage":{"completion_tokens":2}}\n\ndata: [DONE]\n\n',
+		]);
+		const tokens: string[] = [];
+
+		const result = await new OpenAIChatProvider("http://localhost:1234").chat(REQUEST, { onToken: token => tokens.push(token) });
+
+		expect(tokens).toEqual(["Hel", "lo"]);
+		expect(result.text).toBe("Hello");
+		expect(result.completionTokens).toBe(2);
+		expect(result.cancelled).toBe(false);
+	});
+
+	it("parses a payload spread over several data lines as one chunk", async () => {
+		respondWith([
+			'data: {"choices":[{"delta":\n',
+			'data: {"content":"Hello"}}]}\n\n',
+			"data: [DONE]\n\n",
+		]);
+
+		const result = await new OpenAIChatProvider("http://localhost:1234").chat(REQUEST, {});
+
+		expect(result.text).toBe("Hello");
+	});
+
+	it("fails on an error chunk instead of returning the partial answer", async () => {
+		respondWith([
+			'data: {"choices":[{"delta":{"content":"Partial"}}]}\n\n',
+			'data: {"error":{"message":"model crashed"}}\n\n',
+		]);
+
+		const chat = new OpenAIChatProvider("http://localhost:1234").chat(REQUEST, {});
+
+		await expect(chat).rejects.toBeInstanceOf(LLMClientError);
+		await expect(chat).rejects.toThrow("model crashed");
+	});
+});
+
+describe("OpenAIChatProvider sampling", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	// Sends one request and returns the JSON body the server received
+	async function sentBody(provider: OpenAIChatProvider | LLMClient, request: Partial<ProviderChatRequest> = {}) {
+		respondWith(["data: [DONE]\n\n"]);
+		await provider.chat({ ...REQUEST, ...request }, {});
+		const [, init] = (fetch as unknown as ReturnType<typeof vi.fn>).mock.calls[0];
+		return JSON.parse(init.body);
+	}
+
+	it("sends local-server sampling parameters only when extended sampling is on", async () => {
+		const extended = await sentBody(new OpenAIChatProvider("http://localhost:1234", {}, true), { topK: 40, minP: 0.05 });
+		expect(extended).toMatchObject({ top_k: 40, min_p: 0.05 });
+
+		const strict = await sentBody(new OpenAIChatProvider("http://localhost:1234", {}, false), { topK: 40, minP: 0.05, topP: 0.9 });
+		expect(strict).not.toHaveProperty("top_k");
+		expect(strict).not.toHaveProperty("min_p");
+		expect(strict.top_p).toBe(0.9);
+	});
+
+	it("never sends them to the official OpenAI API", async () => {
+		const settings = { providerType: "openai", serverAddress: "https://api.openai.com/v1", llmModel: "gpt", temperature: 0.7, maxTokens: 100, stream: true, openAIExtendedSampling: true } as OLocalLLMSettings;
+		const body = await sentBody(new LLMClient(settings), { topK: 40 });
+		expect(body).not.toHaveProperty("top_k");
+	});
+
+	it("keeps client sampling values when a request override is undefined", async () => {
+		const settings = { providerType: "openai", serverAddress: "http://localhost:1234", llmModel: "local", temperature: 0.7, maxTokens: 100, stream: true } as OLocalLLMSettings;
+		const body = await sentBody(new LLMClient(settings, { temperature: 0.1, topP: 0.5 }), { temperature: undefined, topP: undefined });
+		expect(body.temperature).toBe(0.1);
+		expect(body.top_p).toBe(0.5);
+	});
+});
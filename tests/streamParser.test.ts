@@ -0,0 +1,158 @@
+import { describe, expect, it, vi } from "vitest";
+import { LineBuffer, NDJSONParser, SSEParser, StreamEvent, readEventStream } from "../src/streamParser";
+
+// Feeds a payload in the given pieces, the way a slow connection delivers it
+function feed(parser: SSEParser | NDJSONParser, pieces: string[]): StreamEvent[] {
+	const events: StreamEvent[] = [];
+	for (const piece of pieces) {
+		events.push(...parser.push(piece));
+	}
+	return [...events, ...parser.flush()];
+}
+
+// Every way of cutting text into two pieces
+function allSplits(text: string): string[][] {
+	const splits: string[][] = [];
+	for (let i = 0; i <= text.length; i++) {
+		splits.push([text.slice(0, i), text.slice(i)]);
+	}
+	return splits;
+}
+
+function streamOf(pieces: (string | Uint8Array)[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream({
+		start(controller) {
+			for (const piece of pieces) {
+				controller.enqueue(typeof piece === "string" ? encoder.encode(piece) : piece);
+			}
+			controller.close();
+		},
+	});
+}
+
+const SSE_FIXTURE =
+	'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n' +
+	': keep-alive\n\n' +
+	'data: {"choices":[{"delta":{"content":"lo"}}]}\r\n\r\n' +
+	'event: usage\ndata: {"usage":{"completion_tokens":2}}\n\n' +
+	'data: [DONE]\n\n';
+
+const SSE_EVENTS: StreamEvent[] = [
+	{ event: undefined, data: '{"choices":[{"delta":{"content":"Hel"}}]}' },
+	{ event: undefined, data: '{"choices":[{"delta":{"content":"lo"}}]}' },
+	{ event: "usage", data: '{"usage":{"completion_tokens":2}}' },
+	{ event: undefined, data: "[DONE]" },
+];
+
+describe("LineBuffer", () => {
+	it("carries an unterminated line over to the next chunk", () => {
+		const buffer = new LineBuffer();
+		expect(buffer.push("first\nsec")).toEqual(["first"]);
+		expect(buffer.push("ond\nthird")).toEqual(["second"]);
+		expect(buffer.flush()).toEqual(["third"]);
+	});
+
+	it("does not split a \\r\\n pair that arrives in two chunks", () => {
+		const buffer = new LineBuffer();
+		expect(buffer.push("one\r")).toEqual([]);
+		expect(buffer.push("\ntwo\r")).toEqual(["one"]);
+		expect(buffer.push("three")).toEqual(["two"]);
+		expect(buffer.flush()).toEqual(["three"]);
+	});
+});
+
+describe("SSEParser", () => {
+	it("emits the same events wherever the stream is cut", () => {
+		for (const pieces of allSplits(SSE_FIXTURE)) {
+			expect(feed(new SSEParser(), pieces)).toEqual(SSE_EVENTS);
+		}
+	});
+
+	it("emits the same events when the stream arrives one character at a time", () => {
+		expect(feed(new SSEParser(), SSE_FIXTURE.split(""))).toEqual(SSE_EVENTS);
+	});
+
+	it("joins the data lines of one event", () => {
+		const events = feed(new SSEParser(), ['data: {"a":\n', "data: 1}\n\n"]);
+		expect(events).toEqual([{ event: undefined, data: '{"a":\n1}' }]);
+	});
+
+	it("dispatches a last event without a trailing blank line on flush", () => {
+		expect(feed(new SSEParser(), ["data: tail"])).toEqual([{ event: undefined, data: "tail" }]);
+	});
+});
+
+describe("NDJSONParser", () => {
+	const fixture = '{"message":{"content":"Hel"}}\n\n{"message":{"content":"lo"}}\r\n{"done":true}';
+	const expected = [
+		{ data: '{"message":{"content":"Hel"}}' },
+		{ data: '{"message":{"content":"lo"}}' },
+		{ data: '{"done":true}' },
+	];
+
+	it("emits the same records wherever the stream is cut", () => {
+		for (const pieces of allSplits(fixture)) {
+			expect(feed(new NDJSONParser(), pieces)).toEqual(expected);
+		}
+	});
+
+	it("emits the same records when the stream arrives one character at a time", () => {
+		expect(feed(new NDJSONParser(), fixture.split(""))).toEqual(expected);
+	});
+});
+
+describe("readEventStream", () => {
+	it("decodes multi-byte characters split across chunks and stops at [DONE]", async () => {
+		const bytes = new TextEncoder().encode('data: {"text":"Привет"}\n\ndata: [DONE]\n\ndata: ignored\n\n');
+		const cut = bytes.indexOf(0xd0) + 1; // Inside the first Cyrillic character
+		const events: StreamEvent[] = [];
+
+		const result = await readEventStream(streamOf([bytes.slice(0, cut), bytes.slice(cut)]).getReader(), "sse", event => events.push(event));
+
+		expect(result).toEqual({ cancelled: false });
+		expect(events).toEqual([{ event: undefined, data: '{"text":"Привет"}' }]);
+	});
+
+	it("cancels the stream when onEvent throws", async () => {
+		const cancel = vi.fn();
+		// The server keeps the connection open after the error chunk
+		const stream = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(new TextEncoder().encode('data: {"error":"boom"}\n\n'));
+			},
+			cancel,
+		});
+
+		const read = readEventStream(stream.getReader(), "sse", () => {
+			throw new Error("boom");
+		});
+
+		await expect(read).rejects.toThrow("boom");
+		expect(cancel).toHaveBeenCalledTimes(1);
+	});
+
+	it("cancels the stream after [DONE] without waiting for the server to close it", async () => {
+		const cancel = vi.fn();
+		const stream = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(new TextEncoder().encode("data: [DONE]\n\n"));
+			},
+			cancel,
+		});
+
+		await expect(readEventStream(stream.getReader(), "sse", () => { })).resolves.toEqual({ cancelled: false });
+		expect(cancel).toHaveBeenCalledTimes(1);
+	});
+
+	it("reports a cancelled read when the signal is already aborted", async () => {
+		const controller = new AbortController();
+		controller.abort();
+		const onEvent = vi.fn();
+
+		const result = await readEventStream(streamOf(['{"a":1}\n']).getReader(), "ndjson", onEvent, controller.signal);
+
+		expect(result).toEqual({ cancelled: true });
+		expect(onEvent).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { DiffSegment, applySegments, diffWords } from "../src/wordDiff";
+
+function changeCount(segments: DiffSegment[]): number {
+	return segments.filter(segment => segment.type === "change").length;
+}
+
+// Both sides must come back out of the segments, whatever the input
+function expectRoundTrip(original: string, replacement: string) {
+	const segments = diffWords(original, replacement);
+	const count = changeCount(segments);
+	expect(applySegments(segments, new Array(count).fill(true))).toBe(replacement);
+	expect(applySegments(segments, new Array(count).fill(false))).toBe(original);
+}
+
+describe("diffWords", () => {
+	it("handles an empty side", () => {
+		expect(diffWords("", "")).toEqual([]);
+		expect(diffWords("", "new text")).toEqual([{ type: "change", original: "", replacement: "new text" }]);
+		expect(diffWords("old text", "")).toEqual([{ type: "change", original: "old text", replacement: "" }]);
+	});
+
+	it("returns one equal segment for identical input", () => {
+		expect(diffWords("Same words, same order.", "Same words, same order.")).toEqual([{ type: "equal", text: "Same words, same order." }]);
+	});
+
+	it("reports whitespace-only changes", () => {
+		const segments = diffWords("one two\nthree", "one  two\n\nthree");
+		expect(changeCount(segments)).toBe(2);
+		expectRoundTrip("one two\nthree", "one  two\n\nthree");
+	});
+
+	it("merges neighbouring word changes into one hunk", () => {
+		expect(diffWords("the big dog barks", "the small cat barks")).toEqual([
+			{ type: "equal", text: "the " },
+			{ type: "change", original: "big dog", replacement: "small cat" },
+			{ type: "equal", text: " barks" },
+		]);
+	});
+
+	it("rebuilds either side from the segments", () => {
+		expectRoundTrip("", "");
+		expectRoundTrip("", "added");
+		expectRoundTrip("removed", "");
+		expectRoundTrip("Привет, мир!", "Привет, дорогой мир.");
+		expectRoundTrip("First line.\n\nSecond line, unchanged.", "First sentence.\n\nSecond line, unchanged. Third.");
+	});
+});
+
+describe("applySegments", () => {
+	it("keeps accepted changes and restores rejected ones", () => {
+		const segments = diffWords("The cat sit on the mat.", "The cat sits on a mat.");
+		expect(changeCount(segments)).toBe(2);
+		expect(applySegments(segments, [true, false])).toBe("The cat sits on the mat.");
+		expect(applySegments(segments, [false, true])).toBe("The cat sit on a mat.");
+	});
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+import { fileURLToPath } from "url";
+
+export default defineConfig({
+	resolve: {
+		// The obsidian package only ships type declarations; the app provides the runtime
+		alias: { obsidian: fileURLToPath(new URL("./tests/obsidian.ts", import.meta.url)) },
+	},
+	test: {
+		include: ["tests/**/*.test.ts"],
+	},
+});